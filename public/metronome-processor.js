@@ -1,5 +1,35 @@
 // metronome-processor.js
 
+// Length of each click sound in seconds
+const CLICK_DURATIONS = { click: 0.05, beep: 0.06, kick: 0.2 };
+
+/**
+ * One sample of a click sound.
+ * @param sound 'click', 'beep' or 'kick'
+ * @param accent Whether this is the first beat of a bar
+ * @param t Seconds since the click started
+ */
+function clickSample(sound, accent, t) {
+  switch (sound) {
+    case 'click':
+      // Short sine ping, higher on the downbeat
+      return Math.sin(2 * Math.PI * (accent ? 2000 : 1200) * t) * Math.exp(-t / 0.01);
+    case 'beep': {
+      // Sine tone with 3 ms fades, an octave up on the downbeat
+      const fade = Math.min(1, t / 0.003, (CLICK_DURATIONS.beep - t) / 0.003);
+      return Math.sin(2 * Math.PI * (accent ? 1760 : 880) * t) * fade * 0.6;
+    }
+    case 'kick': {
+      // Same synthesis as scripts/generate-kick.py: an 80 → 40 Hz chirp with an exponential decay
+      const duration = CLICK_DURATIONS.kick;
+      const phase = 2 * Math.PI * (80 * t + ((40 - 80) / (2 * duration)) * t * t);
+      return Math.sin(phase) * Math.exp(-t / 0.05) * (accent ? 1 : 0.6);
+    }
+    default:
+      return 0;
+  }
+}
+
 class MetronomeProcessor extends AudioWorkletProcessor {
   // Define the "tempo" parameter with a-rate automation for precise timing.
   static get parameterDescriptors() {
@@ -9,19 +39,41 @@ class MetronomeProcessor extends AudioWorkletProcessor {
       minValue: 20,
       maxValue: 300,
       automationRate: 'a-rate'
+    }, {
+      name: 'clickVolume',
+      defaultValue: 0.5,
+      minValue: 0,
+      maxValue: 1,
+      automationRate: 'k-rate'
     }];
   }
 
   constructor(options) {
     super();
-    // Initialize the counter for samples until the next tick.
-    // This uses the default tempo of 120 BPM.
-    this.nextTickSamples = sampleRate * (60 / 120);
+    // Fraction of a beat since the last tick. It is advanced by the tempo on every sample, so during
+    // a ramp the ticks follow the same integrated tempo as the decks' playback rates.
+    this.beatPhase = 0;
     this.beatCount = 0;
+
+    // Audible click settings, changed by messages from the main thread
+    this.clickEnabled = false;
+    this.clickSound = 'click';
+    this.beatsPerBar = 4;
+    // The click currently sounding, or null
+    this.voice = null;
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'click') {
+        this.clickEnabled = event.data.enabled;
+        this.clickSound = event.data.sound;
+      } else if (event.data.type === 'meter') {
+        this.beatsPerBar = event.data.beatsPerBar;
+      }
+    };
   }
 
   process(inputs, outputs, parameters) {
-    // Output silent audio to keep the worklet alive.
+    // Output silence (keeping the worklet alive) unless the click is on; it is mixed in below.
     const output = outputs[0];
     if (output && output.length > 0) {
       for (let channel = 0; channel < output.length; channel++) {
@@ -32,23 +84,44 @@ class MetronomeProcessor extends AudioWorkletProcessor {
     // Retrieve the tempo parameter array.
     // If no automation is applied, it will be an array with one value.
     const tempoValues = parameters['tempo'];
+    const clickVolume = parameters['clickVolume'][0];
     // Determine the block size (typically 128 frames per call).
     const blockSize = output[0] ? output[0].length : 128;
 
     // Process the block sample-by-sample.
     for (let i = 0; i < blockSize; i++) {
-      // Count down one sample.
-      this.nextTickSamples -= 1;
-      // When the counter reaches zero, fire a tick event.
-      if (this.nextTickSamples <= 0) {
-        this.port.postMessage({ type: 'tick', beatCount: this.beatCount || 0 });
+      // If the tempo array length is 1, use the single value; otherwise, use the current sample value.
+      const currentTempo = tempoValues.length > 1 ? tempoValues[i] : tempoValues[0];
+      // Advance the phase by the fraction of a beat one sample lasts at this tempo.
+      const phaseStep = currentTempo / (60 * sampleRate);
+      this.beatPhase += phaseStep;
+      // When the phase crosses a whole beat, fire a tick event.
+      if (this.beatPhase >= 1) {
+        this.beatPhase -= 1;
+        // The phase left over says how far before this sample the beat fell
+        const tickTime = currentTime + (i - this.beatPhase / phaseStep) / sampleRate;
+        // Report the exact context time of the tick so the main thread doesn't depend on message latency.
+        this.port.postMessage({ type: 'tick', beatCount: this.beatCount || 0, time: tickTime });
+        // Start the click on this exact sample; the bar's first beat is accented
+        if (this.clickEnabled) {
+          const accent = (this.beatCount || 0) % this.beatsPerBar === 0;
+          this.voice = { sound: this.clickSound, accent, age: 0 };
+        }
         this.beatCount = (this.beatCount || 0) + 1;
-        // If the tempo array length is 1, use the single value; otherwise, use the current sample value.
-        const currentTempo = tempoValues.length > 1 ? tempoValues[i] : tempoValues[0];
-        // Calculate the interval in samples until the next tick.
-        const samplesPerTick = sampleRate * (60 / currentTempo);
-        // Add the interval to the counter, compensating for any overrun.
-        this.nextTickSamples += samplesPerTick;
+      }
+
+      // Render the sounding click into every output channel
+      if (this.voice) {
+        const t = this.voice.age / sampleRate;
+        if (t >= CLICK_DURATIONS[this.voice.sound]) {
+          this.voice = null;
+        } else {
+          const sample = clickSample(this.voice.sound, this.voice.accent, t) * clickVolume;
+          for (let channel = 0; channel < output.length; channel++) {
+            output[channel][i] = sample;
+          }
+          this.voice.age++;
+        }
       }
     }
     // Returning true keeps the processor active.
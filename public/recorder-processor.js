@@ -0,0 +1,66 @@
+// recorder-processor.js
+
+// Frames collected before a chunk is posted, so the main thread isn't sent a message every render quantum
+const CHUNK_FRAMES = 16384;
+
+class RecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.channelCount = options.channelCount || 2;
+    this.recording = false;
+    this.resetChunk();
+
+    this.port.onmessage = (event) => {
+      if (event.data.type === 'start') {
+        this.resetChunk();
+        this.recording = true;
+      } else if (event.data.type === 'stop') {
+        // Flush the partial chunk, then confirm so the main thread knows it has every sample
+        this.postChunk();
+        this.recording = false;
+        this.port.postMessage({ type: 'stopped' });
+      }
+    };
+  }
+
+  resetChunk() {
+    this.chunk = Array.from({ length: this.channelCount }, () => new Float32Array(CHUNK_FRAMES));
+    this.chunkFrames = 0;
+  }
+
+  postChunk() {
+    if (this.chunkFrames === 0) return;
+    const channels = this.chunk.map(channel => channel.slice(0, this.chunkFrames));
+    this.port.postMessage({ type: 'chunk', channels }, channels.map(channel => channel.buffer));
+    this.resetChunk();
+  }
+
+  process(inputs, outputs) {
+    // Output silent audio to keep the worklet alive.
+    const output = outputs[0];
+    if (output && output.length > 0) {
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel].fill(0);
+      }
+    }
+
+    const input = inputs[0];
+    if (!this.recording || !input || input.length === 0) return true;
+
+    const blockSize = input[0].length;
+    for (let channel = 0; channel < this.channelCount; channel++) {
+      // A mono input is recorded to both channels
+      const source = input[Math.min(channel, input.length - 1)];
+      this.chunk[channel].set(source, this.chunkFrames);
+    }
+    this.chunkFrames += blockSize;
+
+    if (this.chunkFrames + blockSize > CHUNK_FRAMES) {
+      this.postChunk();
+    }
+    // Returning true keeps the processor active.
+    return true;
+  }
+}
+
+registerProcessor('recorder-processor', RecorderProcessor);
@@ -0,0 +1,165 @@
+// AudioEngine.ts
+
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext; // Older Safari
+  }
+}
+
+export type EqBand = 'low' | 'mid' | 'high';
+
+/**
+ * A three-band isolator EQ: the input is split into low/mid/high bands which are
+ * summed back together through one gain node per band.
+ */
+export interface ChannelEq {
+  input: GainNode;
+  bands: Record<EqBand, GainNode>;
+}
+
+/**
+ * The per-deck gain stages at the end of a channel, before the master bus.
+ */
+export interface ChannelStrip {
+  gainNode: GainNode;
+  crossfadeNode: GainNode;
+}
+
+// Crossover points in Hz, in the range typical of DJ mixer isolators
+const EQ_LOW_CROSSOVER = 300;
+const EQ_HIGH_CROSSOVER = 4000;
+
+// Per-band boost/cut limits in dB; cutting to the minimum (or killing) mutes the band
+export const EQ_MIN_DB = -26;
+export const EQ_MAX_DB = 6;
+
+/**
+ * Owns the single AudioContext shared by every deck and the metronome, plus the
+ * master bus all deck channels are summed into:
+ *
+ *   deck channel strip(s) → master gain → destination
+ *
+ * Keeping everything on one context means the metronome and the decks are
+ * scheduled against the same clock, so beat alignment is sample-accurate.
+ */
+export class AudioEngine {
+  public readonly context: AudioContext;
+  public readonly masterGain: GainNode;
+
+  constructor() {
+    try {
+      // Create AudioContext in a suspended state to avoid issues with browser autoplay policies
+      this.context = new (window.AudioContext || window.webkitAudioContext)({ latencyHint: 'interactive' });
+      this.context.suspend();
+    } catch (error) {
+      console.error('Error creating AudioContext:', error);
+      throw new Error('Failed to initialize audio context. Please check your audio device and browser permissions.');
+    }
+
+    this.masterGain = this.context.createGain();
+    this.masterGain.connect(this.context.destination);
+  }
+
+  /**
+   * Resumes the shared AudioContext if the browser has suspended it.
+   */
+  public async resume(): Promise<void> {
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+  }
+
+  /**
+   * Creates a deck channel strip whose output is routed into the master bus:
+   * volume gain → crossfader gain → master.
+   * @returns The channel's gain nodes; deck processing should connect into gainNode
+   */
+  public createChannel(): ChannelStrip {
+    const gainNode = this.context.createGain();
+    const crossfadeNode = this.context.createGain();
+    gainNode.connect(crossfadeNode);
+    crossfadeNode.connect(this.masterGain);
+    return { gainNode, crossfadeNode };
+  }
+
+  /**
+   * Creates a three-band EQ that feeds into the given node.
+   * Each band is isolated with 24 dB/oct Linkwitz-Riley filters (two cascaded Butterworth
+   * biquads) so that the bands sum back flat and a band gain of 0 fully kills it.
+   * @param destination The node the summed bands are connected to
+   */
+  public createEqualizer(destination: AudioNode): ChannelEq {
+    const input = this.context.createGain();
+
+    const createFilterChain = (stages: Array<{ type: BiquadFilterType; frequency: number }>): BiquadFilterNode[] => {
+      return stages.flatMap(({ type, frequency }) => [0, 1].map(() => {
+        const filter = this.context.createBiquadFilter();
+        filter.type = type;
+        filter.frequency.value = frequency;
+        filter.Q.value = Math.SQRT1_2;
+        return filter;
+      }));
+    };
+
+    const bandFilters: Record<EqBand, BiquadFilterNode[]> = {
+      low: createFilterChain([{ type: 'lowpass', frequency: EQ_LOW_CROSSOVER }]),
+      mid: createFilterChain([
+        { type: 'highpass', frequency: EQ_LOW_CROSSOVER },
+        { type: 'lowpass', frequency: EQ_HIGH_CROSSOVER }
+      ]),
+      high: createFilterChain([{ type: 'highpass', frequency: EQ_HIGH_CROSSOVER }])
+    };
+
+    const bands = {} as Record<EqBand, GainNode>;
+    (Object.keys(bandFilters) as EqBand[]).forEach(band => {
+      const filters = bandFilters[band];
+      const bandGain = this.context.createGain();
+
+      input.connect(filters[0]);
+      for (let i = 0; i < filters.length - 1; i++) {
+        filters[i].connect(filters[i + 1]);
+      }
+      filters[filters.length - 1].connect(bandGain);
+      bandGain.connect(destination);
+      bands[band] = bandGain;
+    });
+
+    return { input, bands };
+  }
+
+  /**
+   * Disconnects a deck's channel strip and EQ from the master bus, so the nodes can be garbage collected.
+   * @param channel The channel strip created by createChannel
+   * @param eq The channel's EQ created by createEqualizer, if any
+   */
+  public disposeChannel(channel: ChannelStrip, eq: ChannelEq | null): void {
+    if (eq) {
+      eq.input.disconnect();
+      Object.values(eq.bands).forEach(band => band.disconnect());
+    }
+    channel.gainNode.disconnect();
+    channel.crossfadeNode.disconnect();
+  }
+
+  /**
+   * Set the level of one EQ band. The change is smoothed to avoid zipper noise.
+   * @param eq The EQ created by createEqualizer
+   * @param band The band to change
+   * @param db The band gain in dB (EQ_MIN_DB to EQ_MAX_DB); EQ_MIN_DB mutes the band
+   * @param killed Whether the band's kill switch is engaged
+   */
+  public setEqBand(eq: ChannelEq, band: EqBand, db: number, killed: boolean): void {
+    const gain = killed || db <= EQ_MIN_DB ? 0 : Math.pow(10, db / 20);
+    eq.bands[band].gain.setTargetAtTime(gain, this.context.currentTime, 0.01);
+  }
+
+  /**
+   * Set a channel's crossfader gain. A very short time constant is used so that
+   * sharp-cut curves stay tight enough for scratching.
+   * @param crossfadeNode The crossfadeNode of a channel strip created by createChannel
+   * @param gain Linear gain from the crossfader curve
+   */
+  public setCrossfadeGain(crossfadeNode: GainNode, gain: number): void {
+    crossfadeNode.gain.setTargetAtTime(gain, this.context.currentTime, 0.002);
+  }
+}
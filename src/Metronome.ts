@@ -1,23 +1,48 @@
 // Metronome.ts
 
+export type ClickSound = 'click' | 'beep' | 'kick';
+
+export interface ClickSettings {
+  enabled: boolean;
+  sound: ClickSound;
+  volume: number; // 0-1
+}
+
+// Tempo range the metronome (and its worklet's tempo parameter) accepts, in BPM
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 300;
+
+export type TempoRampCurve = 'linear' | 'exponential';
+
+/**
+ * A scheduled glide of the tempo, on the audio clock.
+ */
+export interface TempoRamp {
+  from: number; // BPM
+  to: number; // BPM
+  startTime: number; // AudioContext time
+  endTime: number; // AudioContext time
+  curve: TempoRampCurve;
+}
+
+export const DEFAULT_CLICK: ClickSettings = { enabled: false, sound: 'click', volume: 0.5 };
+
 export class Metronome {
-  private audioContext: AudioContext;
   private workletNode!: AudioWorkletNode;
   private tickListeners: Array<(beatCount: number) => void> = [];
-  private currentTempo: number;
+  private currentTempo: number; // The tempo once any ramp has finished
+  private ramp: TempoRamp | null = null;
+  private beatsPerBar: number = 4;
+  private click: ClickSettings = DEFAULT_CLICK;
   private lastTickTime: number = 0;
   private currentBeatCount: number = 0;
 
-  constructor(private initialTempo: number = 120) {
-    try {
-      // Create AudioContext in a suspended state to avoid issues with browser autoplay policies
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ latencyHint: 'interactive' });
-      this.audioContext.suspend(); // Start in suspended state
-      this.currentTempo = initialTempo;
-    } catch (error) {
-      console.error('Error creating AudioContext:', error);
-      throw new Error('Failed to initialize audio context. Please check your audio device and browser permissions.');
-    }
+  /**
+   * @param audioContext The engine's shared AudioContext, so ticks are measured on the same clock the decks play on
+   * @param initialTempo The starting tempo in BPM
+   */
+  constructor(private audioContext: AudioContext, initialTempo: number = 120) {
+    this.currentTempo = initialTempo;
   }
 
   /**
@@ -32,17 +57,21 @@ export class Metronome {
       // Create the AudioWorkletNode using the name registered in the processor.
       this.workletNode = new AudioWorkletNode(this.audioContext, 'metronome-processor');
 
-      // Set the initial tempo.
+      // Set the initial tempo, meter and click.
       this.workletNode.parameters.get('tempo')!.value = this.currentTempo;
+      this.workletNode.parameters.get('clickVolume')!.value = this.click.volume;
+      this.workletNode.port.postMessage({ type: 'meter', beatsPerBar: this.beatsPerBar });
+      this.workletNode.port.postMessage({ type: 'click', enabled: this.click.enabled, sound: this.click.sound });
 
-      // The worklet produces silent audio. Connecting it to the destination ensures it is processed.
-      // No audible sound will result.
+      // The worklet's output is silent unless the click is on. It goes straight to the destination,
+      // bypassing the master bus, so the click is heard but never recorded.
       this.workletNode.connect(this.audioContext.destination);
 
       // Listen for tick events from the processor.
       this.workletNode.port.onmessage = (event) => {
         if (event.data.type === 'tick') {
-          this.lastTickTime = this.audioContext.currentTime;
+          // Prefer the sample-accurate tick time reported by the processor over the message arrival time
+          this.lastTickTime = event.data.time ?? this.audioContext.currentTime;
           this.currentBeatCount = event.data.beatCount;
           this.tickListeners.forEach(callback => callback(this.currentBeatCount));
         }
@@ -69,6 +98,7 @@ export class Metronome {
 
   /**
    * Stops the metronome by suspending the AudioContext.
+   * The context is shared with the decks, so this pauses them as well.
    */
   public async stop(): Promise<void> {
     if (this.audioContext.state === 'running') {
@@ -85,11 +115,99 @@ export class Metronome {
   }
 
   /**
-   * Get the current tempo in BPM.
-   * @returns The current tempo in beats per minute
+   * Get the tempo in BPM, following any ramp.
+   * @param time AudioContext time, defaults to now
+   * @returns The tempo in beats per minute at that time
    */
-  public getTempo(): number {
-    return this.currentTempo;
+  public getTempo(time: number = this.audioContext.currentTime): number {
+    const ramp = this.ramp;
+    if (!ramp || time >= ramp.endTime) return this.currentTempo;
+    if (time <= ramp.startTime) return ramp.from;
+
+    const progress = (time - ramp.startTime) / (ramp.endTime - ramp.startTime);
+    return ramp.curve === 'linear'
+      ? ramp.from + (ramp.to - ramp.from) * progress
+      : ramp.from * Math.pow(ramp.to / ramp.from, progress);
+  }
+
+  /**
+   * Get the ramp in progress or waiting to start, if any.
+   */
+  public getRamp(): TempoRamp | null {
+    return this.ramp && this.audioContext.currentTime < this.ramp.endTime ? this.ramp : null;
+  }
+
+  /**
+   * Count the beats between two times, integrating the tempo across any ramp.
+   * Decks use this to track their play position while their rate follows a ramp.
+   * @param startTime AudioContext time
+   * @param endTime AudioContext time
+   * @returns The (fractional) number of beats
+   */
+  public getBeatsBetween(startTime: number, endTime: number): number {
+    const ramp = this.ramp;
+    if (!ramp) return (this.currentTempo * (endTime - startTime)) / 60;
+
+    // Integral of the tempo in BPM·s over [a, b], where [a, b] lies within the ramp
+    const integrateRamp = (a: number, b: number): number => {
+      if (b <= a) return 0;
+      if (ramp.curve === 'linear' || ramp.from === ramp.to) {
+        return ((this.getTempo(a) + this.getTempo(b)) / 2) * (b - a);
+      }
+      const duration = ramp.endTime - ramp.startTime;
+      return ((this.getTempo(b) - this.getTempo(a)) * duration) / Math.log(ramp.to / ramp.from);
+    };
+
+    const before = Math.max(0, Math.min(endTime, ramp.startTime) - startTime) * ramp.from;
+    const during = integrateRamp(Math.max(startTime, ramp.startTime), Math.min(endTime, ramp.endTime));
+    const after = Math.max(0, endTime - Math.max(startTime, ramp.endTime)) * ramp.to;
+    return (before + during + after) / 60;
+  }
+
+  /**
+   * Glide the tempo to a new value over a number of bars, starting on the next beat.
+   * The worklet's a-rate tempo parameter follows the ramp, so ticks stay sample-accurate throughout.
+   * @param targetTempo The tempo to end on, in BPM
+   * @param bars The length of the ramp in bars of the current meter
+   * @param curve 'linear' changes the BPM evenly; 'exponential' changes it by an even percentage
+   * @returns The scheduled ramp
+   */
+  public rampTempo(targetTempo: number, bars: number, curve: TempoRampCurve): TempoRamp {
+    if (targetTempo < MIN_TEMPO || targetTempo > MAX_TEMPO) {
+      throw new Error(`Tempo must be between ${MIN_TEMPO} and ${MAX_TEMPO} BPM`);
+    }
+
+    const now = this.audioContext.currentTime;
+    const from = this.getTempo(now);
+    const beats = bars * this.beatsPerBar;
+    // Choose the duration so exactly that many beats fit in the ramp
+    const duration = curve === 'exponential' && from !== targetTempo
+      ? (beats * 60 * Math.log(targetTempo / from)) / (targetTempo - from)
+      : (beats * 60 * 2) / (from + targetTempo);
+    const startTime = now + (this.getTimeUntilNextBeat() ?? 0);
+
+    // Settle any ramp in progress at its current value before scheduling the new one
+    this.settleRamp(now);
+    this.ramp = { from, to: targetTempo, startTime, endTime: startTime + duration, curve };
+    this.currentTempo = targetTempo;
+
+    const tempoParam = this.workletNode.parameters.get('tempo')!;
+    tempoParam.cancelScheduledValues(now);
+    tempoParam.setValueAtTime(from, now);
+    tempoParam.setValueAtTime(from, startTime);
+    if (curve === 'linear') {
+      tempoParam.linearRampToValueAtTime(targetTempo, startTime + duration);
+    } else {
+      tempoParam.exponentialRampToValueAtTime(targetTempo, startTime + duration);
+    }
+    return this.ramp;
+  }
+
+  // Drop a ramp, keeping the tempo it had reached
+  private settleRamp(time: number): void {
+    if (!this.ramp) return;
+    this.currentTempo = this.getTempo(time);
+    this.ramp = null;
   }
 
   /**
@@ -102,15 +220,63 @@ export class Metronome {
 
   /**
    * Adjust the metronome tempo (in BPM). This change is applied smoothly,
-   * and new tick intervals will be computed on the fly.
+   * and new tick intervals will be computed on the fly. Cancels any ramp.
+   * Before initialize() has finished, the tempo is kept and applied once the worklet exists.
    * @param newTempo The new tempo in beats per minute (20-300 BPM)
    */
   public setTempo(newTempo: number): void {
-    if (newTempo < 20 || newTempo > 300) {
-      throw new Error('Tempo must be between 20 and 300 BPM');
+    if (newTempo < MIN_TEMPO || newTempo > MAX_TEMPO) {
+      throw new Error(`Tempo must be between ${MIN_TEMPO} and ${MAX_TEMPO} BPM`);
     }
+    const now = this.audioContext.currentTime;
+    this.ramp = null;
     this.currentTempo = newTempo;
-    this.workletNode.parameters.get('tempo')!.value = newTempo;
+    if (!this.workletNode) return;
+
+    const tempoParam = this.workletNode.parameters.get('tempo')!;
+    tempoParam.cancelScheduledValues(now);
+    tempoParam.setValueAtTime(newTempo, now);
+  }
+
+  /**
+   * Get the metronome's meter.
+   * @returns The number of beats in a bar
+   */
+  public getBeatsPerBar(): number {
+    return this.beatsPerBar;
+  }
+
+  /**
+   * Set the metronome's meter. The beat count keeps running, so bars restart on the next multiple of the new length.
+   * @param beatsPerBar The number of beats in a bar (1-16)
+   */
+  public setBeatsPerBar(beatsPerBar: number): void {
+    if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1 || beatsPerBar > 16) {
+      throw new Error('Beats per bar must be a whole number between 1 and 16');
+    }
+    this.beatsPerBar = beatsPerBar;
+    this.workletNode?.port.postMessage({ type: 'meter', beatsPerBar });
+  }
+
+  /**
+   * Get the audible click settings.
+   */
+  public getClick(): ClickSettings {
+    return this.click;
+  }
+
+  /**
+   * Change the audible click. The click is generated in the worklet, starting on the exact
+   * sample of each tick, with the first beat of each bar accented.
+   * @param updates The settings to change; volume is clamped to 0-1
+   */
+  public setClick(updates: Partial<ClickSettings>): void {
+    this.click = { ...this.click, ...updates };
+    this.click.volume = Math.min(1, Math.max(0, this.click.volume));
+    if (!this.workletNode) return;
+
+    this.workletNode.parameters.get('clickVolume')!.setTargetAtTime(this.click.volume, this.audioContext.currentTime, 0.01);
+    this.workletNode.port.postMessage({ type: 'click', enabled: this.click.enabled, sound: this.click.sound });
   }
 
   /**
@@ -122,11 +288,57 @@ export class Metronome {
       return null; // Metronome hasn't started yet
     }
 
-    const beatInterval = 60 / this.currentTempo; // Time between beats in seconds
     const currentTime = this.audioContext.currentTime;
+    const beatInterval = 60 / this.getTempo(currentTime); // Time between beats in seconds
     const timeSinceLastTick = currentTime - this.lastTickTime;
     const timeUntilNextTick = beatInterval - (timeSinceLastTick % beatInterval);
 
     return timeUntilNextTick;
   }
+
+  /**
+   * Get the metronome's position in beats, e.g. 8.25 is a quarter of a beat after the ninth tick.
+   * @param time AudioContext time, defaults to now
+   * @returns The fractional beat count, or null if the metronome hasn't started yet
+   */
+  public getBeatCountAt(time: number = this.audioContext.currentTime): number | null {
+    if (this.lastTickTime === 0) {
+      return null; // Metronome hasn't started yet
+    }
+    return this.currentBeatCount + this.getBeatsBetween(this.lastTickTime, time);
+  }
+
+  /**
+   * Get the time of the next tick that starts a group of beats, e.g. the next bar or phrase.
+   * Beat counts start at 0 on the first tick, so a group of whole bars always starts on a downbeat.
+   * Tick times follow any ramp, so actions scheduled at the returned time land on the tick itself.
+   * @param beats The group length in beats
+   * @returns The AudioContext time of that tick, or null if the metronome hasn't started yet
+   */
+  public getNextBoundaryTime(beats: number): number | null {
+    if (this.lastTickTime === 0) {
+      return null; // Metronome hasn't started yet
+    }
+
+    // Count any tick that is due but whose message hasn't arrived yet
+    const ticksSinceLast = Math.floor(this.getBeatsBetween(this.lastTickTime, this.audioContext.currentTime));
+    const nextBeatCount = this.currentBeatCount + ticksSinceLast + 1;
+    const boundaryBeatCount = Math.ceil(nextBeatCount / beats) * beats;
+    return this.getTimeAfterBeats(this.lastTickTime, boundaryBeatCount - this.currentBeatCount);
+  }
+
+  // Find when a number of beats will have passed since startTime, by bisecting getBeatsBetween
+  private getTimeAfterBeats(startTime: number, beats: number): number {
+    let low = startTime;
+    let high = startTime + (beats * 60) / MIN_TEMPO;
+    for (let i = 0; i < 50; i++) {
+      const middle = (low + high) / 2;
+      if (this.getBeatsBetween(startTime, middle) < beats) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    return high;
+  }
 }
@@ -0,0 +1,166 @@
+// MixRecorder.ts
+
+import { createWavBlob, interleaveToPcm16 } from './utils/wavEncoder';
+
+export interface MixRecording {
+  wav: Blob;
+  compressed: Blob | null; // Null when the browser can't encode any of COMPRESSED_TYPES
+  duration: number; // Seconds
+}
+
+// Compressed formats in order of preference; the first one MediaRecorder supports is used
+const COMPRESSED_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const CHANNEL_COUNT = 2;
+
+/**
+ * Records whatever reaches a node (the engine's master bus) to 16-bit WAV through an
+ * AudioWorklet, and in parallel to a compressed file through MediaRecorder.
+ */
+export class MixRecorder {
+  private workletNode!: AudioWorkletNode;
+  private analyser!: AnalyserNode;
+  private streamDestination!: MediaStreamAudioDestinationNode;
+  private mediaRecorder: MediaRecorder | null = null;
+  private compressedType: string | null = null;
+  private pcmChunks: Int16Array[] = [];
+  private compressedChunks: Blob[] = [];
+  private levelData: Float32Array = new Float32Array(2048);
+  private startTime: number | null = null;
+  private onStopped: (() => void) | null = null; // Resolves stop() once the worklet has flushed
+  private initialized = false;
+
+  /**
+   * @param audioContext The engine's shared AudioContext
+   * @param source The node to record, normally the master bus
+   */
+  constructor(private audioContext: AudioContext, private source: AudioNode) {}
+
+  /**
+   * Loads the recorder worklet and taps the source. Safe to call more than once.
+   */
+  public async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await this.audioContext.audioWorklet.addModule('/recorder-processor.js');
+      this.workletNode = new AudioWorkletNode(this.audioContext, 'recorder-processor', {
+        channelCount: CHANNEL_COUNT,
+        channelCountMode: 'explicit'
+      });
+      // The worklet produces silent audio. Connecting it to the destination ensures it is processed.
+      this.workletNode.connect(this.audioContext.destination);
+      this.source.connect(this.workletNode);
+
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = this.levelData.length;
+      this.source.connect(this.analyser);
+
+      this.streamDestination = this.audioContext.createMediaStreamDestination();
+      this.source.connect(this.streamDestination);
+      this.compressedType = COMPRESSED_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+      this.workletNode.port.onmessage = (event) => {
+        if (event.data.type === 'chunk') {
+          this.pcmChunks.push(interleaveToPcm16(event.data.channels));
+        } else if (event.data.type === 'stopped') {
+          this.onStopped?.();
+        }
+      };
+      this.initialized = true;
+    } catch (error) {
+      console.error('Error initializing recorder:', error);
+      throw new Error('Failed to initialize the recorder.');
+    }
+  }
+
+  public isRecording(): boolean {
+    return this.startTime !== null;
+  }
+
+  /**
+   * Start recording from the next render quantum.
+   */
+  public start(): void {
+    if (this.isRecording()) return;
+
+    this.pcmChunks = [];
+    this.compressedChunks = [];
+    this.workletNode.port.postMessage({ type: 'start' });
+
+    if (this.compressedType) {
+      this.mediaRecorder = new MediaRecorder(this.streamDestination.stream, { mimeType: this.compressedType });
+      this.mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.compressedChunks.push(event.data);
+      };
+      this.mediaRecorder.start(1000);
+    }
+    this.startTime = this.audioContext.currentTime;
+  }
+
+  /**
+   * Stop recording and wait for both encoders to hand over their last data.
+   */
+  public async stop(): Promise<MixRecording> {
+    const duration = this.getElapsed();
+    this.startTime = null;
+
+    const pcmDone = new Promise<void>(resolve => {
+      this.onStopped = resolve;
+    });
+    this.workletNode.port.postMessage({ type: 'stop' });
+
+    const mediaRecorder = this.mediaRecorder;
+    const compressedDone = new Promise<void>(resolve => {
+      if (!mediaRecorder || mediaRecorder.state === 'inactive') {
+        resolve();
+        return;
+      }
+      mediaRecorder.onstop = () => resolve();
+      mediaRecorder.stop();
+    });
+
+    await Promise.all([pcmDone, compressedDone]);
+    this.onStopped = null;
+    this.mediaRecorder = null;
+
+    return {
+      wav: createWavBlob(this.pcmChunks, CHANNEL_COUNT, this.audioContext.sampleRate),
+      compressed: this.compressedType && this.compressedChunks.length > 0
+        ? new Blob(this.compressedChunks, { type: this.compressedType })
+        : null,
+      duration
+    };
+  }
+
+  /**
+   * Get the file extension of the compressed format, e.g. "webm".
+   */
+  public getCompressedExtension(): string | null {
+    return this.compressedType?.split(';')[0].split('/')[1] ?? null;
+  }
+
+  /**
+   * Get the time since recording started.
+   * @returns Elapsed time in seconds, 0 when not recording
+   */
+  public getElapsed(): number {
+    return this.startTime === null ? 0 : this.audioContext.currentTime - this.startTime;
+  }
+
+  /**
+   * Get the current peak level of the recorded signal.
+   * @returns Peak amplitude of the last few thousand samples, 0-1 (above 1 means clipping)
+   */
+  public getLevel(): number {
+    if (!this.initialized) return 0;
+
+    this.analyser.getFloatTimeDomainData(this.levelData);
+    let peak = 0;
+    for (let i = 0; i < this.levelData.length; i++) {
+      const absValue = Math.abs(this.levelData[i]);
+      if (absValue > peak) peak = absValue;
+    }
+    return peak;
+  }
+}
@@ -4,19 +4,64 @@ import UploadFileIcon from '@mui/icons-material/UploadFile';
 
 // Local imports
 import { useAudioPlayer } from '../hooks/useAudioPlayer';
+import { useLibrary } from '../hooks/useLibrary';
+import { Crossfader } from './Crossfader';
+import { LibraryPanel } from './LibraryPanel';
+import { QuantizeControl } from './QuantizeControl';
+import { RecordControl } from './RecordControl';
 import { TempoControl } from './TempoControl';
 import { TrackList } from './TrackList';
+import { WaveformZoomControl } from './WaveformZoomControl';
 
 export default function AudioPlayer() {
   const {
     tracks,
     handleFileUpload,
+    handleLoadFile,
+    handleEjectTrack,
+    handleReplaceTrack,
+    handleRestoreSession,
+    handleDismissSession,
+    handleCancelAnalysis,
     handlePlayPause,
+    handleCancelArmedAction,
+    handleQuantizeModeChange,
+    quantizeMode,
+    handleWaveformZoomChange,
+    waveformBeats,
+    handleSeek,
     handleVolumeChange,
+    handleEqChange,
+    handleEqKillToggle,
+    handleCrossfaderChange,
+    handleCrossfaderCurveChange,
+    handleCrossfaderAssign,
+    handleLoopAction,
+    handleHotCueAction,
+    handleQuantizeToggle,
+    handleGridEdit,
+    handleKeyLockToggle,
+    handleAutoSyncToggle,
+    handleTempoMultiplierChange,
+    handleKeyShiftChange,
+    handleKeyMatch,
     handleTempoChange,
+    handleTempoFromTrack,
+    handleTempoRamp,
+    handleMeterChange,
+    beatsPerBar,
+    handleClickChange,
+    click,
+    handleRecordToggle,
     metronome,
+    recorder,
+    isRecording,
+    recordedMix,
+    crossfader,
+    pendingSession,
     error
   } = useAudioPlayer();
+  const { libraryEntries, handleLibraryImport } = useLibrary(tracks);
 
   return (
     <Paper elevation={3} sx={{
@@ -40,6 +85,29 @@ export default function AudioPlayer() {
           <Typography variant="body2">{error}</Typography>
         </Box>
       )}
+      {pendingSession && (
+        <Box sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 2,
+          p: 2,
+          mb: 2,
+          border: '1px solid',
+          borderColor: 'primary.main',
+          borderRadius: 1
+        }}>
+          <Typography variant="body2" sx={{ flex: 1 }}>
+            Restore last session ({pendingSession.decks.length} {pendingSession.decks.length === 1 ? 'track' : 'tracks'},
+            {' '}{pendingSession.tempo.toFixed(1)} BPM, saved {new Date(pendingSession.savedAt).toLocaleString()})?
+          </Typography>
+          <Button variant="contained" size="small" onClick={handleRestoreSession}>
+            Restore
+          </Button>
+          <Button size="small" onClick={handleDismissSession}>
+            Dismiss
+          </Button>
+        </Box>
+      )}
       <Box sx={{
         display: 'flex',
         flexDirection: 'column',
@@ -86,6 +154,14 @@ export default function AudioPlayer() {
                 Upload Track
               </Button>
             </label>
+            <RecordControl
+              recorder={recorder}
+              isRecording={isRecording}
+              recordedMix={recordedMix}
+              onToggle={handleRecordToggle}
+            />
+            <QuantizeControl mode={quantizeMode} onChange={handleQuantizeModeChange} />
+            <WaveformZoomControl beats={waveformBeats} onChange={handleWaveformZoomChange} />
           </Box>
 
           <Box sx={{
@@ -95,10 +171,37 @@ export default function AudioPlayer() {
             <TempoControl
               metronome={metronome}
               onChange={handleTempoChange}
+              beatsPerBar={beatsPerBar}
+              onMeterChange={handleMeterChange}
+              click={click}
+              onClickChange={handleClickChange}
+              tempoSources={tracks.map(track => ({
+                id: track.id,
+                label: `${track.metadata.title} (${(track.originalTempo * track.tempoMultiplier).toFixed(1)} BPM)`
+              }))}
+              onTempoFromTrack={handleTempoFromTrack}
+              onRamp={handleTempoRamp}
             />
           </Box>
         </Box>
 
+        <Box sx={{ flexShrink: 0 }}>
+          <LibraryPanel
+            entries={libraryEntries}
+            onImport={handleLibraryImport}
+            decks={tracks.map(track => ({ id: track.id, label: track.metadata.title || track.file.name }))}
+            onLoad={(entry, trackId) => entry.file && handleLoadFile(entry.file, trackId)}
+          />
+        </Box>
+
+        <Box sx={{ flexShrink: 0 }}>
+          <Crossfader
+            crossfader={crossfader}
+            onChange={handleCrossfaderChange}
+            onCurveChange={handleCrossfaderCurveChange}
+          />
+        </Box>
+
         <Box sx={{
           flex: 1,
           overflow: 'auto',
@@ -109,7 +212,25 @@ export default function AudioPlayer() {
           <TrackList
             tracks={tracks}
             onPlayPause={handlePlayPause}
+            onCancelArmedAction={handleCancelArmedAction}
             onVolumeChange={handleVolumeChange}
+            onEqChange={handleEqChange}
+            onEqKillToggle={handleEqKillToggle}
+            onCrossfaderAssign={handleCrossfaderAssign}
+            onLoopAction={handleLoopAction}
+            onHotCueAction={handleHotCueAction}
+            onQuantizeToggle={handleQuantizeToggle}
+            onGridEdit={handleGridEdit}
+            onKeyLockToggle={handleKeyLockToggle}
+            onAutoSyncToggle={handleAutoSyncToggle}
+            onTempoMultiplierChange={handleTempoMultiplierChange}
+            onKeyShiftChange={handleKeyShiftChange}
+            onKeyMatch={handleKeyMatch}
+            onCancelAnalysis={handleCancelAnalysis}
+            onEject={handleEjectTrack}
+            onReplace={handleReplaceTrack}
+            onSeek={handleSeek}
+            visibleBeats={waveformBeats}
           />
         </Box>
       </Box>
@@ -0,0 +1,63 @@
+// Material-UI imports
+import { Box, Slider, ToggleButton, ToggleButtonGroup } from '@mui/material';
+import MusicNoteIcon from '@mui/icons-material/MusicNote';
+
+// Local imports
+import { ClickSettings, ClickSound } from '../Metronome';
+
+interface ClickControlProps {
+  click: ClickSettings;
+  onChange: (updates: Partial<ClickSettings>) => void;
+}
+
+const SOUNDS: { sound: ClickSound; label: string }[] = [
+  { sound: 'click', label: 'Click' },
+  { sound: 'beep', label: 'Beep' },
+  { sound: 'kick', label: 'Kick' }
+];
+
+export function ClickControl({ click, onChange }: ClickControlProps) {
+  const buttonSx = { minWidth: 0, px: 1 };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      <ToggleButton
+        value="click"
+        size="small"
+        selected={click.enabled}
+        onChange={() => onChange({ enabled: !click.enabled })}
+        title="Audible metronome (not recorded)"
+        sx={buttonSx}
+      >
+        <MusicNoteIcon fontSize="small" />
+      </ToggleButton>
+      <ToggleButtonGroup
+        value={click.sound}
+        exclusive
+        size="small"
+        onChange={(_, sound) => sound && onChange({ sound })}
+      >
+        {SOUNDS.map(({ sound, label }) => (
+          <ToggleButton key={sound} value={sound} sx={buttonSx}>
+            {label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <Slider
+        value={click.volume}
+        onChange={(_, v) => onChange({ volume: v as number })}
+        min={0}
+        max={1}
+        step={0.01}
+        size="small"
+        sx={{ width: 70 }}
+        title="Click volume"
+      />
+    </Box>
+  );
+}
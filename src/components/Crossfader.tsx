@@ -0,0 +1,62 @@
+// Material-UI imports
+import { Box, Slider, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+
+// Local imports
+import { CrossfaderState } from '../hooks/useAudioPlayer';
+import { CrossfaderCurve } from '../utils/crossfader';
+
+interface CrossfaderProps {
+  crossfader: CrossfaderState;
+  onChange: (value: number | number[]) => void;
+  onCurveChange: (curve: CrossfaderCurve) => void;
+}
+
+const CURVES: { curve: CrossfaderCurve; label: string }[] = [
+  { curve: 'linear', label: 'Linear' },
+  { curve: 'constantPower', label: 'Smooth' },
+  { curve: 'sharp', label: 'Cut' }
+];
+
+export function Crossfader({ crossfader, onChange, onCurveChange }: CrossfaderProps) {
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 2,
+      p: 2,
+      border: '1px solid',
+      borderColor: 'divider',
+      borderRadius: 1
+    }}>
+      <Typography variant="body1" sx={{ flexShrink: 0 }}>
+        A
+      </Typography>
+      <Slider
+        value={crossfader.position}
+        onChange={(_, v) => onChange(v)}
+        onDoubleClick={() => onChange(0.5)}  // Double-click recentres the fader
+        min={0}
+        max={1}
+        step={0.005}
+        track={false}
+        sx={{ flex: 1, minWidth: 0 }}
+      />
+      <Typography variant="body1" sx={{ flexShrink: 0 }}>
+        B
+      </Typography>
+      <ToggleButtonGroup
+        value={crossfader.curve}
+        exclusive
+        size="small"
+        onChange={(_, curve) => curve && onCurveChange(curve)}
+        sx={{ flexShrink: 0 }}
+      >
+        {CURVES.map(({ curve, label }) => (
+          <ToggleButton key={curve} value={curve}>
+            {label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Box>
+  );
+}
@@ -0,0 +1,68 @@
+// Material-UI imports
+import { Box, Button, Slider, Typography } from '@mui/material';
+
+// Local imports
+import { EQ_MAX_DB, EQ_MIN_DB, EqBand } from '../AudioEngine';
+
+interface EqControlProps {
+  eq: Record<EqBand, number>;
+  eqKills: Record<EqBand, boolean>;
+  disabled?: boolean;
+  onChange: (band: EqBand, value: number) => void;
+  onKillToggle: (band: EqBand) => void;
+}
+
+const BANDS: { band: EqBand; label: string }[] = [
+  { band: 'high', label: 'HI' },
+  { band: 'mid', label: 'MID' },
+  { band: 'low', label: 'LOW' }
+];
+
+export function EqControl({ eq, eqKills, disabled, onChange, onKillToggle }: EqControlProps) {
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      {BANDS.map(({ band, label }) => (
+        <Box
+          key={band}
+          sx={{
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            gap: 0.5
+          }}
+        >
+          <Slider
+            orientation="vertical"
+            value={eq[band]}
+            onChange={(_, v) => onChange(band, v as number)}
+            onDoubleClick={() => onChange(band, 0)}  // Double-click resets the band to flat
+            min={EQ_MIN_DB}
+            max={EQ_MAX_DB}
+            step={0.5}
+            size="small"
+            disabled={disabled || eqKills[band]}
+            sx={{ height: 60 }}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {label}
+          </Typography>
+          <Button
+            variant={eqKills[band] ? 'contained' : 'outlined'}
+            color={eqKills[band] ? 'error' : 'primary'}
+            size="small"
+            onClick={() => onKillToggle(band)}
+            disabled={disabled}
+            sx={{ minWidth: 0, px: 1, py: 0, fontSize: '0.65rem' }}
+          >
+            Kill
+          </Button>
+        </Box>
+      ))}
+    </Box>
+  );
+}
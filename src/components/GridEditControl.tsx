@@ -0,0 +1,75 @@
+// Material-UI imports
+import { Box, Button, Typography } from '@mui/material';
+
+// Local imports
+import { GridEditAction } from '../hooks/useAudioPlayer';
+import { TimeSignatureMenu } from './TimeSignatureMenu';
+
+interface GridEditControlProps {
+  edited: boolean;
+  beatsPerBar: number;
+  canSetDownbeat: boolean;
+  disabled?: boolean;
+  onAction: (action: GridEditAction) => void;
+}
+
+// How far one nudge moves the grid, in milliseconds
+const NUDGE_MS = 5;
+
+export function GridEditControl({ edited, beatsPerBar, canSetDownbeat, disabled, onAction }: GridEditControlProps) {
+  const buttonSx = { minWidth: 0, px: 1 };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 0.5,
+      flexShrink: 0
+    }}>
+      <Typography variant="caption" color="text.secondary" sx={{ mr: 0.5 }}>
+        Grid{edited ? '*' : ''}
+      </Typography>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={() => onAction({ type: 'nudge', ms: -NUDGE_MS })}
+        disabled={disabled}
+        sx={buttonSx}
+        title={`Move the grid ${NUDGE_MS} ms earlier`}
+      >
+        ◀
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={() => onAction({ type: 'nudge', ms: NUDGE_MS })}
+        disabled={disabled}
+        sx={buttonSx}
+        title={`Move the grid ${NUDGE_MS} ms later`}
+      >
+        ▶
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={() => onAction({ type: 'setDownbeat' })}
+        disabled={disabled || !canSetDownbeat}
+        title="Make the selected beat the first beat of a bar"
+      >
+        Set 1
+      </Button>
+      <TimeSignatureMenu
+        beatsPerBar={beatsPerBar}
+        disabled={disabled}
+        onChange={(value) => onAction({ type: 'setMeter', beatsPerBar: value })}
+      />
+      <Button
+        size="small"
+        onClick={() => onAction({ type: 'reset' })}
+        disabled={disabled || !edited}
+      >
+        Reset
+      </Button>
+    </Box>
+  );
+}
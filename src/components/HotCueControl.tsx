@@ -0,0 +1,103 @@
+// React imports
+import { useState } from 'react';
+
+// Material-UI imports
+import { Box, Button, Popover, TextField } from '@mui/material';
+
+// Local imports
+import { HOT_CUE_COLORS, HotCueAction } from '../hooks/useAudioPlayer';
+import { HotCue } from '../utils/trackStorage';
+
+interface HotCueControlProps {
+  hotCues: (HotCue | null)[];
+  quantize: boolean;
+  disabled?: boolean;
+  onAction: (slot: number, action: HotCueAction) => void;
+  onQuantizeToggle: () => void;
+}
+
+export function HotCueControl({ hotCues, quantize, disabled, onAction, onQuantizeToggle }: HotCueControlProps) {
+  // Slot whose label/delete popover is open
+  const [editing, setEditing] = useState<{ slot: number; anchor: HTMLElement } | null>(null);
+  const editingCue = editing ? hotCues[editing.slot] : null;
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 0.5,
+      flexWrap: 'wrap',
+      width: '100%'
+    }}>
+      <Button
+        size="small"
+        variant={quantize ? 'contained' : 'outlined'}
+        onClick={onQuantizeToggle}
+        sx={{ minWidth: 0, px: 1 }}
+      >
+        Q
+      </Button>
+      {hotCues.map((cue, slot) => (
+        <Button
+          key={slot}
+          size="small"
+          variant={cue ? 'contained' : 'outlined'}
+          disabled={disabled}
+          // Click sets an empty slot or jumps to a set one; right-click edits it
+          onClick={() => onAction(slot, { type: cue ? 'trigger' : 'set' })}
+          onContextMenu={(event) => {
+            event.preventDefault();
+            if (cue) setEditing({ slot, anchor: event.currentTarget });
+          }}
+          sx={{
+            minWidth: 0,
+            px: 1,
+            flex: 1,
+            textTransform: 'none',
+            whiteSpace: 'nowrap',
+            overflow: 'hidden',
+            borderColor: HOT_CUE_COLORS[slot],
+            color: cue ? '#fff' : HOT_CUE_COLORS[slot],
+            backgroundColor: cue ? cue.color : 'transparent',
+            '&:hover': { backgroundColor: cue ? cue.color : 'transparent', opacity: 0.85 }
+          }}
+        >
+          {cue?.label || String.fromCharCode(65 + slot)}
+        </Button>
+      ))}
+
+      <Popover
+        open={editingCue !== null}
+        anchorEl={editing?.anchor}
+        onClose={() => setEditing(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      >
+        {editing && editingCue && (
+          <Box sx={{ display: 'flex', gap: 1, p: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="Label"
+              defaultValue={editingCue.label}
+              autoFocus
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') setEditing(null);
+              }}
+              onChange={(event) => onAction(editing.slot, { type: 'label', label: event.target.value })}
+            />
+            <Button
+              size="small"
+              color="error"
+              variant="outlined"
+              onClick={() => {
+                onAction(editing.slot, { type: 'delete' });
+                setEditing(null);
+              }}
+            >
+              Delete
+            </Button>
+          </Box>
+        )}
+      </Popover>
+    </Box>
+  );
+}
@@ -0,0 +1,91 @@
+// React imports
+import { useState } from 'react';
+
+// Material-UI imports
+import { Box, Button, Menu, MenuItem, Slider, Typography } from '@mui/material';
+
+interface KeyMatchTarget {
+  id: string;
+  label: string;
+}
+
+interface KeyShiftControlProps {
+  keyShift: number;
+  matchTargets: KeyMatchTarget[];
+  disabled?: boolean;
+  onChange: (semitones: number) => void;
+  onMatch: (targetTrackId: string) => void;
+}
+
+// Format a shift as semitones and cents, e.g. 2.15 → "+2 st +15 c"
+function formatShift(keyShift: number): string {
+  const semitones = Math.round(keyShift);
+  const cents = Math.round((keyShift - semitones) * 100);
+  const sign = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+  return cents === 0 ? `${sign(semitones)} st` : `${sign(semitones)} st ${sign(cents)} c`;
+}
+
+export function KeyShiftControl({ keyShift, matchTargets, disabled, onChange, onMatch }: KeyShiftControlProps) {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const semitones = Math.round(keyShift);
+  const cents = Math.round((keyShift - semitones) * 100);
+  const buttonSx = { minWidth: 0, px: 1 };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 0.5,
+      flexShrink: 0
+    }}>
+      <Button size="small" variant="outlined" onClick={() => onChange(keyShift - 1)} disabled={disabled} sx={buttonSx}>
+        −
+      </Button>
+      <Typography
+        variant="caption"
+        sx={{ minWidth: '84px', textAlign: 'center', cursor: 'pointer' }}
+        onDoubleClick={() => onChange(0)}  // Double-click resets the transpose
+      >
+        {formatShift(keyShift)}
+      </Typography>
+      <Button size="small" variant="outlined" onClick={() => onChange(keyShift + 1)} disabled={disabled} sx={buttonSx}>
+        +
+      </Button>
+      <Slider
+        value={cents}
+        onChange={(_, v) => onChange(semitones + (v as number) / 100)}
+        min={-50}
+        max={50}
+        step={1}
+        size="small"
+        disabled={disabled}
+        sx={{ width: 80, mx: 1 }}
+      />
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={(event) => setMenuAnchor(event.currentTarget)}
+        disabled={disabled || matchTargets.length === 0}
+      >
+        Match
+      </Button>
+      <Menu
+        anchorEl={menuAnchor}
+        open={menuAnchor !== null}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {matchTargets.map(target => (
+          <MenuItem
+            key={target.id}
+            onClick={() => {
+              onMatch(target.id);
+              setMenuAnchor(null);
+            }}
+          >
+            {target.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
@@ -0,0 +1,329 @@
+// React imports
+import { useState } from 'react';
+
+// Material-UI imports
+import {
+  Box,
+  Button,
+  Menu,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  TextField,
+  ToggleButton,
+  Typography
+} from '@mui/material';
+import CreateNewFolderIcon from '@mui/icons-material/CreateNewFolder';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+
+// Local imports
+import { LibraryEntry, LibraryStatus } from '../hooks/useLibrary';
+import { getDroppedAudioFiles } from '../utils/libraryScan';
+import { MusicalKey, formatKey, isHarmonicallyCompatible } from '../utils/musicalKey';
+
+interface LibraryPanelProps {
+  entries: LibraryEntry[];
+  onImport: (files: File[]) => void;
+  decks: { id: string; label: string }[];
+  onLoad: (entry: LibraryEntry, trackId?: string) => void; // Onto a new deck, or in place of a deck's track
+}
+
+type SortColumn = 'title' | 'artist' | 'bpm' | 'key' | 'duration' | 'status';
+
+const STATUS_LABELS: Record<LibraryStatus, string> = {
+  reading: 'Reading tags…',
+  unanalysed: 'Not analysed',
+  analysing: 'Analysing…',
+  analysed: 'Analysed',
+  error: 'Unreadable'
+};
+
+// Every key, in Camelot wheel order (1A, 1B, 2A, ...)
+const ALL_KEYS: MusicalKey[] = Array.from({ length: 24 }, (_, i): MusicalKey => ({
+  tonic: i % 12,
+  mode: i < 12 ? 'minor' : 'major'
+})).sort((a, b) => {
+  const camelotA = formatKey(a, 'camelot');
+  const camelotB = formatKey(b, 'camelot');
+  return parseInt(camelotA) - parseInt(camelotB) || camelotA.localeCompare(camelotB);
+});
+
+// Format seconds as m:ss
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+// Sort key of an entry for a column; unknown values sort last
+function getSortValue(entry: LibraryEntry, column: SortColumn): string | number | null {
+  switch (column) {
+    case 'title':
+      return entry.title.toLowerCase();
+    case 'artist':
+      return entry.artist.toLowerCase() || null;
+    case 'bpm':
+      return entry.bpm;
+    case 'key':
+      return entry.key ? ALL_KEYS.findIndex(key => key.tonic === entry.key!.tonic && key.mode === entry.key!.mode) : null;
+    case 'duration':
+      return entry.duration;
+    case 'status':
+      return STATUS_LABELS[entry.status];
+  }
+}
+
+export function LibraryPanel({ entries, decks, onImport, onLoad }: LibraryPanelProps) {
+  const [search, setSearch] = useState('');
+  const [minBpm, setMinBpm] = useState('');
+  const [maxBpm, setMaxBpm] = useState('');
+  const [keyFilter, setKeyFilter] = useState<number | ''>(''); // Index into ALL_KEYS
+  const [compatibleKeys, setCompatibleKeys] = useState(false);
+  const [sortColumn, setSortColumn] = useState<SortColumn>('title');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [loadMenu, setLoadMenu] = useState<{ anchor: HTMLElement; entry: LibraryEntry } | null>(null);
+
+  const query = search.trim().toLowerCase();
+  const min = parseFloat(minBpm);
+  const max = parseFloat(maxBpm);
+  const filterKey = keyFilter === '' ? null : ALL_KEYS[keyFilter];
+
+  const visibleEntries = entries
+    .filter(entry => !query || `${entry.title} ${entry.artist} ${entry.fileName}`.toLowerCase().includes(query))
+    .filter(entry => Number.isNaN(min) || (entry.bpm !== null && entry.bpm >= min))
+    .filter(entry => Number.isNaN(max) || (entry.bpm !== null && entry.bpm <= max))
+    .filter(entry => !filterKey || (entry.key !== null && (compatibleKeys
+      ? isHarmonicallyCompatible(entry.key, filterKey)
+      : entry.key.tonic === filterKey.tonic && entry.key.mode === filterKey.mode)))
+    .sort((a, b) => {
+      const valueA = getSortValue(a, sortColumn);
+      const valueB = getSortValue(b, sortColumn);
+      if (valueA === null || valueB === null) return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+      const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+      return sortDirection === 'asc' ? order : -order;
+    });
+
+  const handleSort = (column: SortColumn) => {
+    setSortDirection(column === sortColumn && sortDirection === 'asc' ? 'desc' : 'asc');
+    setSortColumn(column);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragOver(false);
+    getDroppedAudioFiles(event.dataTransfer).then(files => files.length > 0 && onImport(files));
+  };
+
+  const columns: { column: SortColumn; label: string; align?: 'right' }[] = [
+    { column: 'title', label: 'Title' },
+    { column: 'artist', label: 'Artist' },
+    { column: 'bpm', label: 'BPM', align: 'right' },
+    { column: 'key', label: 'Key' },
+    { column: 'duration', label: 'Time', align: 'right' },
+    { column: 'status', label: 'Analysis' }
+  ];
+
+  return (
+    <Box
+      onDragOver={(event) => {
+        event.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1,
+        p: 1,
+        border: '1px dashed',
+        borderColor: isDragOver ? 'primary.main' : 'divider',
+        borderRadius: 1,
+        backgroundColor: isDragOver ? 'action.hover' : 'transparent'
+      }}
+    >
+      <Box sx={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+        flexWrap: 'wrap'
+      }}>
+        <Typography variant="subtitle2" sx={{ mr: 1 }}>
+          Library ({entries.length})
+        </Typography>
+        <TextField
+          size="small"
+          placeholder="Search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          sx={{ width: 180 }}
+        />
+        <TextField
+          type="number"
+          size="small"
+          placeholder="Min BPM"
+          value={minBpm}
+          onChange={(event) => setMinBpm(event.target.value)}
+          sx={{ width: 100 }}
+        />
+        <TextField
+          type="number"
+          size="small"
+          placeholder="Max BPM"
+          value={maxBpm}
+          onChange={(event) => setMaxBpm(event.target.value)}
+          sx={{ width: 100 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Key"
+          value={keyFilter}
+          onChange={(event) => setKeyFilter(event.target.value === '' ? '' : Number(event.target.value))}
+          sx={{ width: 140 }}
+        >
+          <MenuItem value="">Any</MenuItem>
+          {ALL_KEYS.map((key, index) => (
+            <MenuItem key={index} value={index}>
+              {formatKey(key, 'camelot')} ({formatKey(key)})
+            </MenuItem>
+          ))}
+        </TextField>
+        <ToggleButton
+          value="compatible"
+          size="small"
+          selected={compatibleKeys}
+          onChange={() => setCompatibleKeys(!compatibleKeys)}
+          disabled={keyFilter === ''}
+          title="Include harmonically compatible keys"
+        >
+          Compatible
+        </ToggleButton>
+        <Box sx={{ flex: 1 }} />
+        <Button size="small" variant="outlined" component="label" startIcon={<LibraryAddIcon />}>
+          Add files
+          <input
+            type="file"
+            accept="audio/*"
+            multiple
+            hidden
+            onChange={(event) => {
+              onImport(Array.from(event.target.files ?? []));
+              event.target.value = '';
+            }}
+          />
+        </Button>
+        <Button size="small" variant="outlined" component="label" startIcon={<CreateNewFolderIcon />}>
+          Add folder
+          <input
+            type="file"
+            hidden
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            onChange={(event) => {
+              onImport(Array.from(event.target.files ?? []));
+              event.target.value = '';
+            }}
+          />
+        </Button>
+      </Box>
+
+      <TableContainer sx={{ maxHeight: 240 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              {columns.map(({ column, label, align }) => (
+                <TableCell key={column} align={align} sortDirection={sortColumn === column ? sortDirection : false}>
+                  <TableSortLabel
+                    active={sortColumn === column}
+                    direction={sortColumn === column ? sortDirection : 'asc'}
+                    onClick={() => handleSort(column)}
+                  >
+                    {label}
+                  </TableSortLabel>
+                </TableCell>
+              ))}
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {visibleEntries.map(entry => {
+              // Files imported in an earlier session are only kept once loaded onto a deck
+              const canLoad = entry.status !== 'error' && entry.file !== null;
+              return (
+                <TableRow key={entry.id} hover onDoubleClick={() => canLoad && onLoad(entry)}>
+                  <TableCell sx={{ maxWidth: 280 }}>
+                    <Typography variant="body2" noWrap title={entry.fileName}>{entry.title}</Typography>
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 200 }}>
+                    <Typography variant="body2" noWrap>{entry.artist}</Typography>
+                  </TableCell>
+                  <TableCell align="right">{entry.bpm !== null ? entry.bpm.toFixed(1) : '–'}</TableCell>
+                  <TableCell>{entry.key ? formatKey(entry.key, 'camelot') : '–'}</TableCell>
+                  <TableCell align="right">{entry.duration !== null ? formatDuration(entry.duration) : '–'}</TableCell>
+                  <TableCell>
+                    <Typography variant="caption" color={entry.status === 'error' ? 'error' : 'text.secondary'}>
+                      {STATUS_LABELS[entry.status]}
+                    </Typography>
+                  </TableCell>
+                  <TableCell align="right">
+                    <span title={entry.file === null ? 'Add the file again to load it' : undefined}>
+                      <Button
+                        size="small"
+                        onClick={(event) => decks.length > 0
+                          ? setLoadMenu({ anchor: event.currentTarget, entry })
+                          : onLoad(entry)}
+                        disabled={!canLoad}
+                      >
+                        Load
+                      </Button>
+                    </span>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {visibleEntries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1}>
+                  <Typography variant="body2" color="text.secondary" align="center">
+                    {entries.length === 0 ? 'Drop audio files or folders here' : 'No tracks match the filters'}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Menu
+        anchorEl={loadMenu?.anchor}
+        open={loadMenu !== null}
+        onClose={() => setLoadMenu(null)}
+      >
+        <MenuItem
+          onClick={() => {
+            onLoad(loadMenu!.entry);
+            setLoadMenu(null);
+          }}
+        >
+          New deck
+        </MenuItem>
+        {decks.map(deck => (
+          <MenuItem
+            key={deck.id}
+            onClick={() => {
+              onLoad(loadMenu!.entry, deck.id);
+              setLoadMenu(null);
+            }}
+          >
+            Replace {deck.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
@@ -0,0 +1,103 @@
+// Material-UI imports
+import { Box, Button, ToggleButton, ToggleButtonGroup } from '@mui/material';
+
+// Local imports
+import { LOOP_SIZES, LoopAction, TrackLoop } from '../hooks/useAudioPlayer';
+
+interface LoopControlProps {
+  loop: TrackLoop | null;
+  loopBeats: number;
+  loopInTime: number | null;
+  disabled?: boolean;
+  onAction: (action: LoopAction) => void;
+}
+
+// Format a loop length in beats, e.g. 0.25 → "1/4"
+function formatBeats(beats: number): string {
+  return beats < 1 ? `1/${Math.round(1 / beats)}` : `${beats}`;
+}
+
+export function LoopControl({ loop, loopBeats, loopInTime, disabled, onAction }: LoopControlProps) {
+  const buttonSx = { minWidth: 0, px: 1 };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexWrap: 'wrap',
+      width: '100%'
+    }}>
+      <ToggleButtonGroup
+        value={loop ? loopBeats : null}
+        exclusive
+        size="small"
+        onChange={(_, beats) => onAction({ type: 'auto', beats: beats ?? loopBeats })}
+        disabled={disabled}
+      >
+        {LOOP_SIZES.map(beats => (
+          <ToggleButton key={beats} value={beats} sx={buttonSx}>
+            {formatBeats(beats)}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Box sx={{ display: 'flex', gap: 0.5 }}>
+        <Button
+          size="small"
+          variant={loopInTime !== null ? 'contained' : 'outlined'}
+          onClick={() => onAction({ type: 'in' })}
+          disabled={disabled}
+          sx={buttonSx}
+        >
+          In
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => onAction({ type: 'out' })}
+          disabled={disabled || (loopInTime === null && !loop)}
+          sx={buttonSx}
+        >
+          Out
+        </Button>
+        <Button size="small" variant="outlined" onClick={() => onAction({ type: 'halve' })} disabled={disabled} sx={buttonSx}>
+          ½
+        </Button>
+        <Button size="small" variant="outlined" onClick={() => onAction({ type: 'double' })} disabled={disabled} sx={buttonSx}>
+          ×2
+        </Button>
+        {/* Move the loop while one is active, otherwise beat jump by the loop length */}
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => onAction({ type: loop ? 'move' : 'jump', direction: -1 })}
+          disabled={disabled}
+          title={loop ? 'Move loop back' : `Jump back ${formatBeats(loopBeats)} beats`}
+          sx={buttonSx}
+        >
+          ◀
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => onAction({ type: loop ? 'move' : 'jump', direction: 1 })}
+          disabled={disabled}
+          title={loop ? 'Move loop forward' : `Jump forward ${formatBeats(loopBeats)} beats`}
+          sx={buttonSx}
+        >
+          ▶
+        </Button>
+        <Button
+          size="small"
+          variant={loop ? 'contained' : 'outlined'}
+          onClick={() => onAction({ type: 'exit' })}
+          disabled={disabled || !loop}
+          sx={buttonSx}
+        >
+          Exit
+        </Button>
+      </Box>
+    </Box>
+  );
+}
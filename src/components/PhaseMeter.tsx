@@ -0,0 +1,68 @@
+// Material-UI imports
+import { Box, ToggleButton, Typography } from '@mui/material';
+import SyncIcon from '@mui/icons-material/Sync';
+
+interface PhaseMeterProps {
+  phaseOffset: number | null;
+  autoSync: boolean;
+  onAutoSyncToggle: () => void;
+}
+
+// Offset in milliseconds at either end of the meter; larger offsets pin the marker to the edge
+const METER_RANGE_MS = 50;
+
+// Offsets within this many milliseconds count as in phase
+const IN_PHASE_MS = 5;
+
+export function PhaseMeter({ phaseOffset, autoSync, onAutoSyncToggle }: PhaseMeterProps) {
+  const markerPosition = phaseOffset === null
+    ? 50
+    : 50 + (Math.max(-METER_RANGE_MS, Math.min(METER_RANGE_MS, phaseOffset)) / METER_RANGE_MS) * 50;
+  const inPhase = phaseOffset !== null && Math.abs(phaseOffset) <= IN_PHASE_MS;
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      <Box
+        title="Deck beat against the metronome tick: left is behind, right is ahead"
+        sx={{
+          position: 'relative',
+          width: 80,
+          height: 12,
+          borderRadius: 1,
+          backgroundColor: 'action.hover'
+        }}
+      >
+        <Box sx={{ position: 'absolute', left: '50%', top: 0, bottom: 0, width: '1px', backgroundColor: 'text.disabled' }} />
+        {phaseOffset !== null && (
+          <Box sx={{
+            position: 'absolute',
+            left: `calc(${markerPosition}% - 2px)`,
+            top: 0,
+            bottom: 0,
+            width: '4px',
+            borderRadius: 1,
+            backgroundColor: inPhase ? 'success.main' : 'warning.main'
+          }} />
+        )}
+      </Box>
+      <Typography variant="caption" color="text.secondary" sx={{ minWidth: '48px', fontVariantNumeric: 'tabular-nums' }}>
+        {phaseOffset === null ? '– ms' : `${phaseOffset > 0 ? '+' : ''}${Math.round(phaseOffset)} ms`}
+      </Typography>
+      <ToggleButton
+        value="autoSync"
+        size="small"
+        selected={autoSync}
+        onChange={onAutoSyncToggle}
+        title="Auto sync: keep the deck in phase with the metronome"
+        sx={{ minWidth: 0, px: 1 }}
+      >
+        <SyncIcon fontSize="small" />
+      </ToggleButton>
+    </Box>
+  );
+}
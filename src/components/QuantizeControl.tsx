@@ -0,0 +1,38 @@
+// Material-UI imports
+import { Box, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+
+// Local imports
+import { QUANTIZE_MODES, QuantizeMode } from '../hooks/useAudioPlayer';
+
+interface QuantizeControlProps {
+  mode: QuantizeMode;
+  onChange: (mode: QuantizeMode) => void;
+}
+
+export function QuantizeControl({ mode, onChange }: QuantizeControlProps) {
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      <Typography variant="body2" color="text.secondary">
+        Quantize
+      </Typography>
+      <ToggleButtonGroup
+        value={mode}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && onChange(value)}
+        title="Play, cue, loop and beat jump wait for the next boundary on the metronome"
+      >
+        {QUANTIZE_MODES.map(({ mode, label }) => (
+          <ToggleButton key={mode} value={mode} sx={{ minWidth: 0, px: 1 }}>
+            {label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Box>
+  );
+}
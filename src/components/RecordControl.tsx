@@ -0,0 +1,123 @@
+// React imports
+import { useEffect, useMemo, useState } from 'react';
+
+// Material-UI imports
+import { Box, Button, LinearProgress, Typography } from '@mui/material';
+import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import StopIcon from '@mui/icons-material/Stop';
+
+// Local imports
+import { RecordedMix, TracklistEntry } from '../hooks/useAudioPlayer';
+import { MixRecorder } from '../MixRecorder';
+
+interface RecordControlProps {
+  recorder: MixRecorder;
+  isRecording: boolean;
+  recordedMix: RecordedMix | null;
+  onToggle: () => void;
+}
+
+// Format seconds as m:ss, or h:mm:ss for long mixes
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+function formatTracklist(tracklist: TracklistEntry[]): string {
+  return tracklist.map(entry => `${formatTimestamp(entry.time)} ${entry.title}`).join('\n') + '\n';
+}
+
+export function RecordControl({ recorder, isRecording, recordedMix, onToggle }: RecordControlProps) {
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+
+  // Poll the recorder's clock and level while recording
+  useEffect(() => {
+    if (!isRecording) return;
+
+    let frame = requestAnimationFrame(function update() {
+      setElapsed(recorder.getElapsed());
+      setLevel(recorder.getLevel());
+      frame = requestAnimationFrame(update);
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      setLevel(0);
+    };
+  }, [isRecording, recorder]);
+
+  // Object URLs for the downloads, released when the recording is replaced
+  const downloads = useMemo(() => {
+    if (!recordedMix) return null;
+    return {
+      wav: URL.createObjectURL(recordedMix.wav),
+      compressed: recordedMix.compressed ? URL.createObjectURL(recordedMix.compressed) : null,
+      tracklist: URL.createObjectURL(new Blob([formatTracklist(recordedMix.tracklist)], { type: 'text/plain' }))
+    };
+  }, [recordedMix]);
+
+  useEffect(() => {
+    if (!downloads) return;
+    return () => {
+      URL.revokeObjectURL(downloads.wav);
+      if (downloads.compressed) URL.revokeObjectURL(downloads.compressed);
+      URL.revokeObjectURL(downloads.tracklist);
+    };
+  }, [downloads]);
+
+  const fileName = `mix-${new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')}`;
+  const compressedExtension = recorder.getCompressedExtension();
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      <Button
+        variant={isRecording ? 'contained' : 'outlined'}
+        color="error"
+        onClick={onToggle}
+        startIcon={isRecording ? <StopIcon /> : <FiberManualRecordIcon />}
+      >
+        {isRecording ? 'Stop' : 'Record'}
+      </Button>
+      {isRecording && (
+        <>
+          <Typography variant="body2" sx={{ minWidth: '56px', fontVariantNumeric: 'tabular-nums' }}>
+            {formatTimestamp(elapsed)}
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min(100, level * 100)}
+            color={level >= 1 ? 'error' : 'success'}
+            sx={{ width: 80, height: 8, borderRadius: 1 }}
+            title="Peak level"
+          />
+        </>
+      )}
+      {!isRecording && recordedMix && downloads && (
+        <>
+          <Typography variant="caption" color="text.secondary">
+            {formatTimestamp(recordedMix.duration)}
+          </Typography>
+          <Button size="small" href={downloads.wav} download={`${fileName}.wav`}>
+            WAV
+          </Button>
+          {downloads.compressed && (
+            <Button size="small" href={downloads.compressed} download={`${fileName}.${compressedExtension}`}>
+              {compressedExtension?.toUpperCase()}
+            </Button>
+          )}
+          <Button size="small" href={downloads.tracklist} download={`${fileName}-tracklist.txt`}>
+            Tracklist
+          </Button>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,18 +1,55 @@
 // Material-UI imports
-import { Box, Slider, Typography } from '@mui/material';
+import { Box, Slider, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
 import { useEffect, useState, useRef } from 'react';
-import { Metronome } from '../Metronome';
+import { ClickSettings, MAX_TEMPO, MIN_TEMPO, Metronome, TempoRampCurve } from '../Metronome';
+import { ClickControl } from './ClickControl';
+import { TempoEntryControl } from './TempoEntryControl';
+import { TempoRampControl } from './TempoRampControl';
+import { TimeSignatureMenu } from './TimeSignatureMenu';
 
 interface TempoControlProps {
   onChange: (value: number | number[]) => void;
+  beatsPerBar: number;
+  onMeterChange: (beatsPerBar: number) => void;
+  click: ClickSettings;
+  onClickChange: (updates: Partial<ClickSettings>) => void;
+  tempoSources: { id: string; label: string }[];
+  onTempoFromTrack: (trackId: string) => void;
+  onRamp: (targetTempo: number, bars: number, curve: TempoRampCurve) => void;
   metronome: Metronome;
 }
 
-export function TempoControl({ onChange, metronome }: TempoControlProps) {
-  const [currentBeat, setCurrentBeat] = useState<number>(4);
+type TempoRangeMode = '6' | '10' | '16' | '50' | 'wide';
+
+// Slider ranges as on a CDJ: a fraction either side of the reference tempo, or the metronome's whole range
+const TEMPO_RANGES: { mode: TempoRangeMode; label: string; range: number | null }[] = [
+  { mode: '6', label: '±6', range: 0.06 },
+  { mode: '10', label: '±10', range: 0.1 },
+  { mode: '16', label: '±16', range: 0.16 },
+  { mode: '50', label: '±50', range: 0.5 },
+  { mode: 'wide', label: 'Wide', range: null }
+];
+
+export function TempoControl({
+  onChange,
+  beatsPerBar,
+  onMeterChange,
+  click,
+  onClickChange,
+  tempoSources,
+  onTempoFromTrack,
+  onRamp,
+  metronome
+}: TempoControlProps) {
+  const [currentBeat, setCurrentBeat] = useState<number>(beatsPerBar);
   const [isDragging, setIsDragging] = useState(false);
   const [sliderValue, setSliderValue] = useState(metronome?.getTempo() || 120);
+  const [rangeMode, setRangeMode] = useState<TempoRangeMode>('10');
+  const [referenceTempo, setReferenceTempo] = useState(metronome?.getTempo() || 120);
   const tickListenerAdded = useRef(false);
+  const range = TEMPO_RANGES.find(r => r.mode === rangeMode)!.range;
+  const sliderMin = range === null ? MIN_TEMPO : Math.max(MIN_TEMPO, referenceTempo * (1 - range));
+  const sliderMax = range === null ? MAX_TEMPO : Math.min(MAX_TEMPO, referenceTempo * (1 + range));
 
   // Update local state when metronome tempo changes
   useEffect(() => {
@@ -21,23 +58,38 @@ export function TempoControl({ onChange, metronome }: TempoControlProps) {
     }
   }, [metronome?.getTempo()]);
 
+  // Recentre the range on a tempo set outside it (typed, tapped, taken from a deck or restored)
+  useEffect(() => {
+    if (sliderValue < sliderMin || sliderValue > sliderMax) {
+      setReferenceTempo(sliderValue);
+    }
+  }, [sliderValue, sliderMin, sliderMax]);
+
   // Set up metronome tick listener only once
   useEffect(() => {
     if (!metronome || tickListenerAdded.current) return;
 
     const handleTick = (beatNumber: number) => {
-      // Update the visual beat indicator (1-4)
-      setCurrentBeat((beatNumber % 4) + 1);
+      // Update the visual beat indicator (1 to beats per bar); read the meter live, this listener is only added once
+      setCurrentBeat((beatNumber % metronome.getBeatsPerBar()) + 1);
     };
 
     metronome.addTickListener(handleTick);
     tickListenerAdded.current = true;
   }, [metronome]);
 
+  // Set an exact tempo (typed, nudged or tapped), kept within the metronome's range
+  const applyTempo = (value: number) => {
+    const newTempo = Math.min(MAX_TEMPO, Math.max(MIN_TEMPO, Math.round(value * 100) / 100));
+    setSliderValue(newTempo);
+    onChange(newTempo);
+  };
+
   return (
     <Box sx={{
       display: 'flex',
       alignItems: 'center',
+      flexWrap: 'wrap',
       gap: 2,
       p: 2,
       border: '1px solid',
@@ -54,10 +106,10 @@ export function TempoControl({ onChange, metronome }: TempoControlProps) {
         flexShrink: 0
       }}>
         <Typography variant="body1">
-          Global Tempo: {metronome?.getTempo()?.toFixed(1) || '120.0'}
+          Global Tempo
         </Typography>
         <Box sx={{ display: 'flex', gap: 1 }}>
-          {[1, 2, 3, 4].map((beat) => (
+          {Array.from({ length: beatsPerBar }, (_, i) => i + 1).map((beat) => (
             <Box
               key={beat}
               sx={{
@@ -76,23 +128,63 @@ export function TempoControl({ onChange, metronome }: TempoControlProps) {
             />
           ))}
         </Box>
+        <TimeSignatureMenu beatsPerBar={beatsPerBar} onChange={onMeterChange} />
       </Box>
-      <Box sx={{ flex: 1, minWidth: 0 }}>
+      <TempoEntryControl
+        tempo={metronome?.getTempo() ?? 120}
+        sources={tempoSources}
+        onChange={applyTempo}
+        onTempoFromTrack={onTempoFromTrack}
+      />
+      <Box sx={{ flex: 1, minWidth: '120px' }}>
         <Slider
           value={sliderValue}
           onChange={(_, value) => {
             const newTempo = value as number;
             setSliderValue(newTempo);
-            metronome?.setTempo(newTempo);
             onChange(value);
           }}
-          min={90}
-          max={150}
-          step={0.1}
+          min={sliderMin}
+          max={sliderMax}
+          step={range !== null && range <= 0.16 ? 0.01 : 0.1}
           onMouseDown={() => setIsDragging(true)}
           onMouseUp={() => setIsDragging(false)}
         />
       </Box>
+      <Typography
+        variant="caption"
+        sx={{ minWidth: '48px', textAlign: 'right', cursor: 'pointer', flexShrink: 0 }}
+        title={`Reference ${referenceTempo.toFixed(1)} BPM; double-click to return to it`}
+        onDoubleClick={() => applyTempo(referenceTempo)}
+      >
+        {sliderValue >= referenceTempo ? '+' : '−'}{Math.abs((sliderValue / referenceTempo - 1) * 100).toFixed(1)}%
+      </Typography>
+      <ToggleButtonGroup
+        value={rangeMode}
+        exclusive
+        size="small"
+        onChange={(_, mode) => {
+          if (!mode) return;
+          // A new range is centred on the current tempo
+          setRangeMode(mode);
+          setReferenceTempo(sliderValue);
+        }}
+        sx={{ flexShrink: 0 }}
+        title="Tempo range (%)"
+      >
+        {TEMPO_RANGES.map(({ mode, label }) => (
+          <ToggleButton key={mode} value={mode} sx={{ minWidth: 0, px: 1 }}>
+            {label}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <TempoRampControl
+        tempo={sliderValue}
+        ramp={metronome?.getRamp() ?? null}
+        onRamp={onRamp}
+        onCancel={() => applyTempo(metronome.getTempo())}
+      />
+      <ClickControl click={click} onChange={onClickChange} />
     </Box>
   );
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+// React imports
+import { useRef, useState } from 'react';
+
+// Material-UI imports
+import { Box, Button, Menu, MenuItem, TextField } from '@mui/material';
+
+// Local imports
+import { MAX_TAPS, TAP_RESET_MS, getTapTempo } from '../utils/tapTempo';
+import { MAX_TEMPO, MIN_TEMPO } from '../Metronome';
+
+interface TempoSource {
+  id: string;
+  label: string;
+}
+
+interface TempoEntryControlProps {
+  tempo: number;
+  sources: TempoSource[];
+  onChange: (tempo: number) => void;
+  onTempoFromTrack: (trackId: string) => void;
+}
+
+const NUDGES = [-1, -0.1, 0.1, 1];
+
+// Format a nudge amount, e.g. -0.1 → "−0.1"
+function formatNudge(nudge: number): string {
+  return nudge > 0 ? `+${nudge}` : `−${-nudge}`;
+}
+
+export function TempoEntryControl({ tempo, sources, onChange, onTempoFromTrack }: TempoEntryControlProps) {
+  const [text, setText] = useState<string | null>(null); // Input contents while editing
+  const [tapCount, setTapCount] = useState(0);
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const tapTimes = useRef<number[]>([]);
+  const buttonSx = { minWidth: 0, px: 1 };
+
+  const commitText = () => {
+    const value = text === null ? NaN : parseFloat(text);
+    if (Number.isFinite(value)) onChange(value);
+    setText(null);
+  };
+
+  const handleTap = () => {
+    const now = performance.now();
+    const taps = tapTimes.current;
+    if (taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_MS) {
+      taps.length = 0;
+    }
+    taps.push(now);
+    if (taps.length > MAX_TAPS) taps.shift();
+    setTapCount(taps.length);
+
+    const tapTempo = getTapTempo(taps);
+    if (tapTempo !== null) onChange(tapTempo);
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 0.5,
+      flexShrink: 0
+    }}>
+      {NUDGES.slice(0, 2).map(nudge => (
+        <Button key={nudge} size="small" variant="outlined" onClick={() => onChange(tempo + nudge)} sx={buttonSx}>
+          {formatNudge(nudge)}
+        </Button>
+      ))}
+      <TextField
+        type="number"
+        size="small"
+        value={text ?? tempo.toFixed(1)}
+        onChange={(event) => setText(event.target.value)}
+        onBlur={commitText}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commitText();
+          if (event.key === 'Escape') setText(null);
+        }}
+        inputProps={{ min: MIN_TEMPO, max: MAX_TEMPO, step: 0.1, 'aria-label': 'Tempo in BPM' }}
+        sx={{ width: 90 }}
+      />
+      {NUDGES.slice(2).map(nudge => (
+        <Button key={nudge} size="small" variant="outlined" onClick={() => onChange(tempo + nudge)} sx={buttonSx}>
+          {formatNudge(nudge)}
+        </Button>
+      ))}
+      <Button
+        size="small"
+        variant="outlined"
+        onPointerDown={handleTap}  // Pointer down rather than click, so the tap lands when the finger does
+        title="Tap along to set the tempo"
+      >
+        Tap{tapCount > 1 ? ` (${tapCount})` : ''}
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={(event) => setMenuAnchor(event.currentTarget)}
+        disabled={sources.length === 0}
+      >
+        From deck
+      </Button>
+      <Menu
+        anchorEl={menuAnchor}
+        open={menuAnchor !== null}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {sources.map(source => (
+          <MenuItem
+            key={source.id}
+            onClick={() => {
+              onTempoFromTrack(source.id);
+              setMenuAnchor(null);
+            }}
+          >
+            {source.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
@@ -0,0 +1,83 @@
+// React imports
+import { useState } from 'react';
+
+// Material-UI imports
+import { Box, Button, TextField, ToggleButton, ToggleButtonGroup } from '@mui/material';
+
+// Local imports
+import { MAX_TEMPO, MIN_TEMPO, TempoRamp, TempoRampCurve } from '../Metronome';
+
+interface TempoRampControlProps {
+  tempo: number;
+  ramp: TempoRamp | null;
+  onRamp: (targetTempo: number, bars: number, curve: TempoRampCurve) => void;
+  onCancel: () => void;
+}
+
+const RAMP_BARS = [4, 8, 16, 32];
+
+export function TempoRampControl({ tempo, ramp, onRamp, onCancel }: TempoRampControlProps) {
+  const [target, setTarget] = useState('128');
+  const [bars, setBars] = useState(16);
+  const [curve, setCurve] = useState<TempoRampCurve>('linear');
+  const buttonSx = { minWidth: 0, px: 1 };
+  const targetTempo = parseFloat(target);
+  const isValid = Number.isFinite(targetTempo) && targetTempo >= MIN_TEMPO && targetTempo <= MAX_TEMPO;
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 0.5,
+      flexShrink: 0
+    }}>
+      <TextField
+        type="number"
+        size="small"
+        value={target}
+        onChange={(event) => setTarget(event.target.value)}
+        inputProps={{ min: MIN_TEMPO, max: MAX_TEMPO, step: 0.1, 'aria-label': 'Ramp target tempo in BPM' }}
+        sx={{ width: 80 }}
+        disabled={ramp !== null}
+      />
+      <ToggleButtonGroup
+        value={bars}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && setBars(value)}
+        disabled={ramp !== null}
+        title="Ramp length in bars"
+      >
+        {RAMP_BARS.map(value => (
+          <ToggleButton key={value} value={value} sx={buttonSx}>
+            {value}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      <ToggleButtonGroup
+        value={curve}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && setCurve(value)}
+        disabled={ramp !== null}
+      >
+        <ToggleButton value="linear" sx={buttonSx} title="Even BPM steps">Lin</ToggleButton>
+        <ToggleButton value="exponential" sx={buttonSx} title="Even percentage steps">Exp</ToggleButton>
+      </ToggleButtonGroup>
+      {ramp ? (
+        <Button size="small" variant="contained" onClick={onCancel} title={`Ramping to ${ramp.to.toFixed(1)} BPM`}>
+          Stop ramp
+        </Button>
+      ) : (
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => onRamp(targetTempo, bars, curve)}
+          disabled={!isValid || targetTempo === tempo}
+        >
+          Ramp
+        </Button>
+      )}
+    </Box>
+  );
+}
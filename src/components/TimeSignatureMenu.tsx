@@ -0,0 +1,53 @@
+// React imports
+import { useState } from 'react';
+
+// Material-UI imports
+import { Button, Menu, MenuItem } from '@mui/material';
+
+// Local imports
+import { TIME_SIGNATURES } from '../hooks/useAudioPlayer';
+
+interface TimeSignatureMenuProps {
+  beatsPerBar: number;
+  disabled?: boolean;
+  onChange: (beatsPerBar: number) => void;
+}
+
+// Button showing a meter, opening a menu of the others
+export function TimeSignatureMenu({ beatsPerBar, disabled, onChange }: TimeSignatureMenuProps) {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+  const current = TIME_SIGNATURES.find(signature => signature.beatsPerBar === beatsPerBar);
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={(event) => setMenuAnchor(event.currentTarget)}
+        disabled={disabled}
+        sx={{ minWidth: 0, px: 1 }}
+        title="Time signature"
+      >
+        {current?.label ?? `${beatsPerBar}/4`}
+      </Button>
+      <Menu
+        anchorEl={menuAnchor}
+        open={menuAnchor !== null}
+        onClose={() => setMenuAnchor(null)}
+      >
+        {TIME_SIGNATURES.map(signature => (
+          <MenuItem
+            key={signature.beatsPerBar}
+            selected={signature.beatsPerBar === beatsPerBar}
+            onClick={() => {
+              onChange(signature.beatsPerBar);
+              setMenuAnchor(null);
+            }}
+          >
+            {signature.label}
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
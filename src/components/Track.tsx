@@ -2,28 +2,127 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 // Material-UI imports
-import { Box, Button, Slider, Typography } from '@mui/material';
+import { Box, Button, Chip, IconButton, LinearProgress, Slider, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import EjectIcon from '@mui/icons-material/Eject';
+import LockIcon from '@mui/icons-material/Lock';
+import LockOpenIcon from '@mui/icons-material/LockOpen';
 import PauseIcon from '@mui/icons-material/Pause';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
 import VolumeUpIcon from '@mui/icons-material/VolumeUp';
 
 // Local imports
-import { Track as TrackType } from '../hooks/useAudioPlayer';
+import { ArmedAction, GridEditAction, HotCueAction, LoopAction, Track as TrackType, getTrackKey } from '../hooks/useAudioPlayer';
+import { EqBand } from '../AudioEngine';
+import { EqControl } from './EqControl';
+import { GridEditControl } from './GridEditControl';
+import { HotCueControl } from './HotCueControl';
+import { KeyShiftControl } from './KeyShiftControl';
+import { LoopControl } from './LoopControl';
+import { PhaseMeter } from './PhaseMeter';
+import { WaveformOverview } from './WaveformOverview';
+import { CrossfaderSide } from '../utils/crossfader';
+import { KeyNotation, formatKey } from '../utils/musicalKey';
+import { AnalysisStage } from '../utils/beatDetection';
+import { getPeakColumns, getWaveformColor } from '../utils/waveformPeaks';
+
+// Clicking the key cycles through the notations
+const KEY_NOTATIONS: KeyNotation[] = ['standard', 'camelot', 'openKey'];
+
+// Half/double time: mix a 70 BPM track against 140, or a 174 BPM track against 87
+const TEMPO_MULTIPLIERS = [
+  { multiplier: 0.5, label: '½×' },
+  { multiplier: 1, label: '1×' },
+  { multiplier: 2, label: '2×' }
+];
+
+const ARMED_ACTION_LABELS: Record<ArmedAction['type'], string> = {
+  play: 'Play',
+  cue: 'Cue',
+  loop: 'Loop',
+  jump: 'Beat jump'
+};
+
+const ANALYSIS_STAGE_LABELS: Record<AnalysisStage, string> = {
+  filtering: 'Filtering',
+  tempo: 'Tracking tempo',
+  grid: 'Fitting beat grid',
+  downbeat: 'Finding downbeat',
+  phrases: 'Detecting phrases'
+};
+
+// Where the waveform is centred: the play position while playing, else where play will start
+function getDisplayPosition(track: TrackType): number {
+  return track.isPlaying ? track.currentTime : track.selectedStartTime;
+}
+
+// Samples shown by the scrolling waveform, centred on a position. The width is a number of metronome beats
+// at the deck's current tempo (its local tempo times its tempo multiplier), so decks playing in sync draw their beats the same distance apart.
+function getWaveformView(sampleRate: number, tempo: number, position: number, visibleBeats: number) {
+  const visibleSamples = ((visibleBeats * 60) / tempo) * sampleRate;
+  return { visibleStart: position * sampleRate - visibleSamples / 2, visibleSamples };
+}
 
 interface TrackProps {
   track: TrackType;
   onPlayPause: (trackId: string) => void;
+  onCancelArmedAction: (trackId: string) => void;
   onVolumeChange: (trackId: string, value: number | number[]) => void;
+  onEqChange: (trackId: string, band: EqBand, value: number) => void;
+  onEqKillToggle: (trackId: string, band: EqBand) => void;
+  onCrossfaderAssign: (trackId: string, side: CrossfaderSide) => void;
+  onLoopAction: (trackId: string, action: LoopAction) => void;
+  onHotCueAction: (trackId: string, slot: number, action: HotCueAction) => void;
+  onQuantizeToggle: (trackId: string) => void;
+  onGridEdit: (trackId: string, action: GridEditAction) => void;
+  onKeyLockToggle: (trackId: string) => void;
+  onAutoSyncToggle: (trackId: string) => void;
+  onTempoMultiplierChange: (trackId: string, multiplier: number) => void;
+  onKeyShiftChange: (trackId: string, semitones: number) => void;
+  onKeyMatch: (trackId: string, targetTrackId: string) => void;
+  onCancelAnalysis: (trackId: string) => void;
+  onEject: (trackId: string) => void;
+  onReplace: (trackId: string, file: File) => void;
+  onSeek: (trackId: string, time: number) => void;
+  visibleBeats: number; // Metronome beats across the scrolling waveform, the same on every deck so their beats line up
+  keyMatchTargets: { id: string; label: string }[];
 }
 
-export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
+export function Track({
+  track,
+  onPlayPause,
+  onCancelArmedAction,
+  onVolumeChange,
+  onEqChange,
+  onEqKillToggle,
+  onCrossfaderAssign,
+  onLoopAction,
+  onHotCueAction,
+  onQuantizeToggle,
+  onGridEdit,
+  onKeyLockToggle,
+  onAutoSyncToggle,
+  onTempoMultiplierChange,
+  onKeyShiftChange,
+  onKeyMatch,
+  onCancelAnalysis,
+  onEject,
+  onReplace,
+  onSeek,
+  visibleBeats,
+  keyMatchTargets
+}: TrackProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const overlayRef = useRef<HTMLCanvasElement>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [zoom, setZoom] = useState(1);  // Zoom factor, 1 = normal, >1 = zoomed in
-  const [offset, setOffset] = useState(0);  // Horizontal offset, 0 = start, 1 = end
-  const lastPlayPosition = useRef<number>(0);
   const [beatTimesInSeconds, setBeatTimesInSeconds] = useState<number[]>([]);
+  const [keyNotation, setKeyNotation] = useState<KeyNotation>('standard');
+  const currentKey = getTrackKey(track);
+  const position = getDisplayPosition(track);
+
+  // The stretch of track in the scrolling waveform, outlined on the overview
+  const visibleSeconds = (visibleBeats * 60) / (track.localTempo * track.tempoMultiplier);
+  const visibleRange = { start: position - visibleSeconds / 2, end: position + visibleSeconds / 2 };
 
   const drawWaveform = useCallback(() => {
     const canvas = canvasRef.current;
@@ -57,53 +156,40 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
 
     setIsLoading(false);
 
-    // Get audio data
-    const data = track.audioBuffer.getChannelData(0);
+    const length = track.audioBuffer.length;
     const amp = canvas.height / 2;
 
-    const visibleSamples = data.length / zoom;
-    const step = Math.ceil(visibleSamples / canvas.width);
-
-    // Calculate visible range based on offset
-    const visibleStart = Math.floor(offset * (data.length - visibleSamples));
-    const visibleEnd = Math.min(data.length, visibleStart + visibleSamples);
-
-    // Find the global max amplitude
-    let globalMax = 0;
-    for (let i = 0; i < data.length; i++) {
-      const absValue = Math.abs(data[i]);
-      if (absValue > globalMax) globalMax = absValue;
-    }
-
-    // Avoid division by 0
-    if (globalMax === 0) globalMax = 1;
-
-    // Create a buffer for the waveform data to improve performance
-    const waveformData = new Float32Array(canvas.width);
-    for (let i = 0; i < canvas.width; i++) {
-      let max = 0;
-      const start = Math.floor(visibleStart + i * step);
-      const end = Math.min(start + step, data.length);
-
-      for (let j = start; j < end; j++) {
-        const absValue = Math.abs(data[j]);
-        if (absValue > max) max = absValue;
+    // Scroll with the play position, keeping it at the centre
+    const { visibleStart, visibleSamples } = getWaveformView(track.audioBuffer.sampleRate, track.localTempo * track.tempoMultiplier, position, visibleBeats);
+    const step = visibleSamples / canvas.width;
+    const playheadX = canvas.width / 2;
+
+    // Read the visible stretch from the peak data, so drawing costs the same whatever the track length
+    if (track.peaks) {
+      const { bandMax } = track.peaks;
+      const columns = getPeakColumns(track.peaks, track.audioBuffer, visibleStart, step, canvas.width);
+
+      // Normalize to the loudest sample of the track, avoiding division by 0
+      const scale = amp / (track.peaks.max || 1);
+
+      for (let i = 0; i < canvas.width; i++) {
+        const levels = { low: columns.bands.low[i], mid: columns.bands.mid[i], high: columns.bands.high[i] };
+        const played = i < playheadX;
+
+        // Peaks in a dimmer shade of the column's colour, with the RMS body over them; darkened once played
+        ctx.strokeStyle = getWaveformColor(levels, bandMax, played ? 0.35 : 0.6);
+        ctx.beginPath();
+        ctx.moveTo(i + 0.5, amp - columns.max[i] * scale);
+        ctx.lineTo(i + 0.5, amp - columns.min[i] * scale + 1);
+        ctx.stroke();
+
+        const rmsHeight = columns.rms[i] * scale;
+        ctx.strokeStyle = getWaveformColor(levels, bandMax, played ? 0.6 : 1);
+        ctx.beginPath();
+        ctx.moveTo(i + 0.5, amp - rmsHeight);
+        ctx.lineTo(i + 0.5, amp + rmsHeight + 1);
+        ctx.stroke();
       }
-      waveformData[i] = max;
-    }
-
-    // Draw the normalized waveform in two parts - played and unplayed
-    ctx.beginPath();
-    for (let i = 0; i < canvas.width; i++) {
-      const normalized = waveformData[i] / globalMax; // Normalize to [0, 1] based on global maximum
-      const height = normalized * amp * 2;
-      const y = amp - height / 2;
-
-      // Draw the line segment in the appropriate color based on playback position
-      ctx.strokeStyle = i <= lastPlayPosition.current ? '#2a7edf' : '#4a9eff';
-      ctx.moveTo(i, y);
-      ctx.lineTo(i, y + height);
-      ctx.stroke();
     }
 
     // Draw beat markers
@@ -122,8 +208,8 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
         const currentBeatTime = currentBeat / 1000;
         const nextBeatTime = nextBeat / 1000;
 
-        const currentBeatPosition = (currentBeatTime / track.duration) * data.length;
-        const nextBeatPosition = (nextBeatTime / track.duration) * data.length;
+        const currentBeatPosition = (currentBeatTime / track.duration) * length;
+        const nextBeatPosition = (nextBeatTime / track.duration) * length;
 
         const x1 = ((currentBeatPosition - visibleStart) / visibleSamples) * canvas.width;
         const x2 = ((nextBeatPosition - visibleStart) / visibleSamples) * canvas.width;
@@ -139,7 +225,7 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
           ctx.fillRect(x1, 0, x2 - x1, canvas.height);
 
           // Draw dashed line at the start of each bar
-          if (i % 4 === track.downbeatOffset) {
+          if (i % track.beatsPerBar === track.downbeatOffset) {
             ctx.setLineDash([2, 2]); // Set dash pattern
             ctx.strokeStyle = '#888888';
             ctx.lineWidth = 1;
@@ -152,45 +238,68 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
         }
       }
     }
-  }, [track.audioBuffer, track.beats, track.duration, track.downbeatOffset, track.clickedBeatIndex, zoom, offset]);
-
-  const updatePlayPosition = useCallback(() => {
-    const overlay = overlayRef.current;
-    if (!overlay || !track.audioBuffer) return;
 
-    const ctx = overlay.getContext('2d');
-    if (!ctx) return;
-
-    // Set overlay dimensions to match main canvas
-    const mainCanvas = canvasRef.current;
-    if (!mainCanvas) return;
-    overlay.width = mainCanvas.width;
-    overlay.height = mainCanvas.height;
-
-    // Clear overlay
-    ctx.clearRect(0, 0, overlay.width, overlay.height);
-
-    // Calculate visible range based on zoom and offset
-    const visibleSamples = track.audioBuffer.length / zoom;
-    const visibleStart = Math.floor(offset * (track.audioBuffer.length - visibleSamples));
-
-    // Calculate play position in samples
-    const playPositionInSamples = track.currentTime * track.audioBuffer.sampleRate;
+    // Draw the active loop region and the pending loop-in point
+    const timeToX = (time: number) => ((time * track.audioBuffer!.sampleRate - visibleStart) / visibleSamples) * canvas.width;
+    if (track.loop) {
+      const x1 = timeToX(track.loop.start);
+      const x2 = timeToX(track.loop.end);
+      ctx.fillStyle = 'rgba(76, 175, 80, 0.25)';
+      ctx.fillRect(x1, 0, x2 - x1, canvas.height);
+      ctx.strokeStyle = '#4caf50';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x1, 1, x2 - x1, canvas.height - 2);
+      ctx.lineWidth = 1;
+    }
+    if (track.loopInTime !== null) {
+      const x = timeToX(track.loopInTime);
+      ctx.strokeStyle = '#4caf50';
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+      ctx.stroke();
+    }
 
-    // Convert play position to canvas coordinates, accounting for zoom and offset
-    const playbackPixel = Math.floor(
-      ((playPositionInSamples - visibleStart) / visibleSamples) * overlay.width
-    );
+    // Draw tempo change markers (the first one only marks where the grid starts)
+    ctx.font = '10px Arial';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'bottom';
+    track.tempoMarkers.slice(1).forEach(marker => {
+      const x = timeToX(marker.time / 1000);
+      if (x < 0 || x > canvas.width) return;
+      ctx.strokeStyle = '#ff9800';
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+      ctx.stroke();
+      ctx.fillStyle = '#ff9800';
+      ctx.fillText(marker.bpm.toFixed(1), x + 3, canvas.height - 1);
+    });
 
-    // Only draw if play position is within visible range
-    if (playbackPixel >= 0 && playbackPixel <= overlay.width) {
-      // Draw play position indicator
-      ctx.fillStyle = 'rgba(42, 126, 223, 0.2)'; // Semi-transparent blue
-      ctx.fillRect(0, 0, playbackPixel, overlay.height);
-    }
+    // Draw hot cue markers
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    track.hotCues.forEach((cue, slot) => {
+      if (!cue) return;
+      const x = timeToX(cue.time);
+      if (x < 0 || x > canvas.width) return;
+      ctx.strokeStyle = cue.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+      ctx.stroke();
+      ctx.fillStyle = cue.color;
+      ctx.fillRect(x, 0, 14, 12);
+      ctx.fillStyle = '#fff';
+      ctx.fillText(String.fromCharCode(65 + slot), x + 3, 1);
+    });
+    ctx.lineWidth = 1;
 
-    lastPlayPosition.current = playbackPixel;
-  }, [track.currentTime, track.audioBuffer, zoom, offset]);
+    // Draw the playhead
+    ctx.fillStyle = '#212121';
+    ctx.fillRect(playheadX - 1, 0, 2, canvas.height);
+  }, [track.audioBuffer, track.peaks, track.beats, track.tempoMarkers, track.duration, track.downbeatOffset, track.beatsPerBar, track.clickedBeatIndex, track.loop, track.loopInTime, track.hotCues, track.localTempo, track.tempoMultiplier, position, visibleBeats]);
 
   // Precompute beat times when beats change
   useEffect(() => {
@@ -208,10 +317,9 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
     const x = event.clientX - rect.left;
     const clickPosition = x / canvas.width;
 
-    // Account for zoom and offset
-    const visibleSamples = track.audioBuffer.length / zoom;
-    const visibleStart = Math.floor(offset * (track.audioBuffer.length - visibleSamples));
-    
+    // Account for the scroll position
+    const { visibleStart, visibleSamples } = getWaveformView(track.audioBuffer.sampleRate, track.localTempo * track.tempoMultiplier, position, visibleBeats);
+
     // Calculate the time at click position
     const sampleAtClick = visibleStart + (visibleSamples * clickPosition);
     const timeAtClick = sampleAtClick / track.audioBuffer.sampleRate;
@@ -232,7 +340,7 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
     }
 
     // Check if this beat is a bar start (downbeat)
-    const isDownbeat = selectedBeatIndex % 4 === track.downbeatOffset;
+    const isDownbeat = selectedBeatIndex % track.beatsPerBar === track.downbeatOffset;
 
     // Get the beat time
     const beatTime = beatTimesInSeconds[selectedBeatIndex];
@@ -255,25 +363,6 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
     drawWaveform();
   }, [drawWaveform]);
 
-  useEffect(() => {
-    let animationFrame: number;
-    
-    const animate = () => {
-      updatePlayPosition();
-      animationFrame = requestAnimationFrame(animate);
-    };
-
-    if (track.isPlaying) {
-      animate();
-    }
-
-    return () => {
-      if (animationFrame) {
-        cancelAnimationFrame(animationFrame);
-      }
-    };
-  }, [track.isPlaying, updatePlayPosition]);
-
   return (
     <Box sx={{
       display: 'flex',
@@ -304,10 +393,44 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
             {track.metadata.title || track.file.name}
           </Typography>
           <Typography variant="caption" color="text.secondary" noWrap>
-            Key: {track.metadata.key} | BPM: {Math.round(track.originalTempo)}
+            Key:{' '}
+            <Box
+              component="span"
+              title={track.metadata.keyConfidence !== null
+                ? `Estimated, confidence ${Math.round(track.metadata.keyConfidence * 100)}%`
+                : undefined}
+              onClick={() => setKeyNotation(KEY_NOTATIONS[(KEY_NOTATIONS.indexOf(keyNotation) + 1) % KEY_NOTATIONS.length])}
+              sx={{ cursor: 'pointer' }}
+            >
+              {currentKey
+                ? `${formatKey(currentKey, keyNotation)}${track.metadata.keyConfidence !== null ? '*' : ''}`
+                : 'Unknown'}
+            </Box>
+            {' '}| BPM: {track.tempoMarkers.length > 1
+              ? `${(track.localTempo * track.tempoMultiplier).toFixed(1)} (variable)`
+              : Math.round(track.originalTempo * track.tempoMultiplier)}
           </Typography>
         </Box>
 
+        <Box sx={{ display: 'flex', flexShrink: 0 }}>
+          <IconButton size="small" component="label" title="Replace with another file">
+            <SwapHorizIcon fontSize="small" />
+            <input
+              type="file"
+              accept="audio/*"
+              hidden
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onReplace(track.id, file);
+                event.target.value = '';
+              }}
+            />
+          </IconButton>
+          <IconButton size="small" onClick={() => onEject(track.id)} title="Eject">
+            <EjectIcon fontSize="small" />
+          </IconButton>
+        </Box>
+
         <Button
           variant="contained"
           onClick={() => onPlayPause(track.id)}
@@ -318,6 +441,56 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
           {track.isPlaying ? 'Pause' : 'Play'}
         </Button>
 
+        {track.armedAction && (
+          <Chip
+            label={`${ARMED_ACTION_LABELS[track.armedAction.type]} armed`}
+            color="warning"
+            size="small"
+            onDelete={() => onCancelArmedAction(track.id)}
+            title="Waiting for the quantize boundary"
+            sx={{ flexShrink: 0 }}
+          />
+        )}
+
+        <Button
+          variant={track.keyLock ? 'contained' : 'outlined'}
+          onClick={() => onKeyLockToggle(track.id)}
+          startIcon={track.keyLock ? <LockIcon /> : <LockOpenIcon />}
+          sx={{ flexShrink: 0 }}
+          title={track.keyLock ? 'Key lock on: tempo changes keep the original pitch' : 'Vinyl mode: pitch follows tempo'}
+        >
+          Key
+        </Button>
+
+        <ToggleButtonGroup
+          value={track.tempoMultiplier}
+          exclusive
+          size="small"
+          onChange={(_, multiplier) => multiplier && onTempoMultiplierChange(track.id, multiplier)}
+          sx={{ flexShrink: 0 }}
+          title="Half/double time"
+        >
+          {TEMPO_MULTIPLIERS.map(({ multiplier, label }) => (
+            <ToggleButton key={multiplier} value={multiplier} sx={{ minWidth: 0, px: 1 }}>
+              {label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <PhaseMeter
+          phaseOffset={track.isPlaying ? track.phaseOffset : null}
+          autoSync={track.autoSync}
+          onAutoSyncToggle={() => onAutoSyncToggle(track.id)}
+        />
+
+        <KeyShiftControl
+          keyShift={track.keyShift}
+          matchTargets={track.metadata.key ? keyMatchTargets : []}
+          disabled={isLoading}
+          onChange={(semitones) => onKeyShiftChange(track.id, semitones)}
+          onMatch={(targetTrackId) => onKeyMatch(track.id, targetTrackId)}
+        />
+
         <Box sx={{
           display: 'flex',
           alignItems: 'center',
@@ -337,84 +510,102 @@ export function Track({ track, onPlayPause, onVolumeChange }: TrackProps) {
             disabled={isLoading}
           />
         </Box>
+
+        <EqControl
+          eq={track.eq}
+          eqKills={track.eqKills}
+          disabled={isLoading}
+          onChange={(band, value) => onEqChange(track.id, band, value)}
+          onKillToggle={(band) => onEqKillToggle(track.id, band)}
+        />
+
+        <ToggleButtonGroup
+          value={track.crossfaderSide}
+          exclusive
+          size="small"
+          onChange={(_, side) => side && onCrossfaderAssign(track.id, side)}
+          sx={{ flexShrink: 0 }}
+        >
+          <ToggleButton value="A">A</ToggleButton>
+          <ToggleButton value="thru">Thru</ToggleButton>
+          <ToggleButton value="B">B</ToggleButton>
+        </ToggleButtonGroup>
       </Box>
 
+      {track.analysisProgress && (
+        <Box sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          width: '100%'
+        }}>
+          <Typography variant="caption" color="text.secondary" sx={{ minWidth: '160px' }} noWrap>
+            {ANALYSIS_STAGE_LABELS[track.analysisProgress.stage]}…
+          </Typography>
+          <LinearProgress
+            variant="determinate"
+            value={track.analysisProgress.progress * 100}
+            sx={{ flex: 1 }}
+          />
+          <IconButton size="small" onClick={() => onCancelAnalysis(track.id)} title="Cancel analysis">
+            <CloseIcon fontSize="small" />
+          </IconButton>
+        </Box>
+      )}
+
       <Box sx={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: 1,
         width: '100%',
-        overflow: 'hidden',
-        position: 'relative'
+        overflow: 'hidden'
       }}>
         <canvas
           ref={canvasRef}
           onClick={handleCanvasClick}
           style={{
             width: '100%',
-            height: '300px',
+            height: '120px',
             backgroundColor: '#f5f5f5',
             borderRadius: '4px',
-            display: 'block',
-            position: 'relative'
+            display: 'block'
           }}
         />
-        <canvas
-          ref={overlayRef}
-          style={{
-            position: 'absolute',
-            top: 0,
-            left: 0,
-            width: '100%',
-            height: '100%',
-            pointerEvents: 'none'
-          }}
+        <WaveformOverview
+          peaks={track.peaks}
+          audioBuffer={track.audioBuffer}
+          position={position}
+          visibleRange={visibleRange}
+          phrases={track.phrases}
+          hotCues={track.hotCues}
+          loop={track.loop}
+          onSeek={(time) => onSeek(track.id, time)}
         />
       </Box>
 
-      <Box sx={{
-        display: 'flex',
-        flexDirection: 'column',
-        gap: 1,
-        width: '100%'
-      }}>
-        <Box sx={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: 1,
-          width: '100%'
-        }}>
-          <Typography variant="caption" color="text.secondary" sx={{ minWidth: '60px' }}>
-            Zoom:
-          </Typography>
-          <Slider
-            value={zoom}
-            onChange={(e, v) => setZoom(v as number)}
-            min={1.0}
-            max={20}
-            step={0.1}
-            size="small"
-            sx={{ flex: 1 }}
-          />
-        </Box>
-
-        <Box sx={{
-          display: 'flex',
-          alignItems: 'center',
-          gap: 1,
-          width: '100%'
-        }}>
-          <Typography variant="caption" color="text.secondary" sx={{ minWidth: '60px' }}>
-            Offset:
-          </Typography>
-          <Slider
-            value={offset}
-            onChange={(e, v) => setOffset(v as number)}
-            min={0}
-            max={1}
-            step={0.001}
-            size="small"
-            sx={{ flex: 1 }}
-          />
-        </Box>
-      </Box>
+      <HotCueControl
+        hotCues={track.hotCues}
+        quantize={track.quantize}
+        disabled={isLoading}
+        onAction={(slot, action) => onHotCueAction(track.id, slot, action)}
+        onQuantizeToggle={() => onQuantizeToggle(track.id)}
+      />
+
+      <GridEditControl
+        edited={Object.keys(track.gridEdits).length > 0}
+        beatsPerBar={track.beatsPerBar}
+        canSetDownbeat={track.clickedBeatIndex !== null}
+        disabled={isLoading || track.beats.length === 0}
+        onAction={(action) => onGridEdit(track.id, action)}
+      />
+
+      <LoopControl
+        loop={track.loop}
+        loopBeats={track.loopBeats}
+        loopInTime={track.loopInTime}
+        disabled={isLoading || track.beats.length < 2}
+        onAction={(action) => onLoopAction(track.id, action)}
+      />
     </Box>
   );
 }
\ No newline at end of file
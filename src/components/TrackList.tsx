@@ -1,14 +1,65 @@
 import { Box } from '@mui/material';
 import { Track } from './Track';
-import { Track as TrackType } from '../hooks/useAudioPlayer';
+import { GridEditAction, HotCueAction, LoopAction, Track as TrackType, getTrackKey } from '../hooks/useAudioPlayer';
+import { EqBand } from '../AudioEngine';
+import { CrossfaderSide } from '../utils/crossfader';
+import { formatKey } from '../utils/musicalKey';
 
 interface TrackListProps {
   tracks: TrackType[];
   onPlayPause: (trackId: string) => void;
+  onCancelArmedAction: (trackId: string) => void;
   onVolumeChange: (trackId: string, value: number | number[]) => void;
+  onEqChange: (trackId: string, band: EqBand, value: number) => void;
+  onEqKillToggle: (trackId: string, band: EqBand) => void;
+  onCrossfaderAssign: (trackId: string, side: CrossfaderSide) => void;
+  onLoopAction: (trackId: string, action: LoopAction) => void;
+  onHotCueAction: (trackId: string, slot: number, action: HotCueAction) => void;
+  onQuantizeToggle: (trackId: string) => void;
+  onGridEdit: (trackId: string, action: GridEditAction) => void;
+  onKeyLockToggle: (trackId: string) => void;
+  onAutoSyncToggle: (trackId: string) => void;
+  onTempoMultiplierChange: (trackId: string, multiplier: number) => void;
+  onKeyShiftChange: (trackId: string, semitones: number) => void;
+  onKeyMatch: (trackId: string, targetTrackId: string) => void;
+  onCancelAnalysis: (trackId: string) => void;
+  onEject: (trackId: string) => void;
+  onReplace: (trackId: string, file: File) => void;
+  onSeek: (trackId: string, time: number) => void;
+  visibleBeats: number;
 }
 
-export function TrackList({ tracks, onPlayPause, onVolumeChange }: TrackListProps) {
+export function TrackList({
+  tracks,
+  onPlayPause,
+  onCancelArmedAction,
+  onVolumeChange,
+  onEqChange,
+  onEqKillToggle,
+  onCrossfaderAssign,
+  onLoopAction,
+  onHotCueAction,
+  onQuantizeToggle,
+  onGridEdit,
+  onKeyLockToggle,
+  onAutoSyncToggle,
+  onTempoMultiplierChange,
+  onKeyShiftChange,
+  onKeyMatch,
+  onCancelAnalysis,
+  onEject,
+  onReplace,
+  onSeek,
+  visibleBeats
+}: TrackListProps) {
+  // Playing decks with a known key that other decks can be key-matched to
+  const keyMatchTargets = tracks.flatMap(track => {
+    const key = getTrackKey(track);
+    return track.isPlaying && key
+      ? [{ id: track.id, label: `${track.metadata.title} (${formatKey(key, 'camelot')})` }]
+      : [];
+  });
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
       {tracks.map(track => (
@@ -16,7 +67,26 @@ export function TrackList({ tracks, onPlayPause, onVolumeChange }: TrackListProp
           key={track.id}
           track={track}
           onPlayPause={onPlayPause}
+          onCancelArmedAction={onCancelArmedAction}
           onVolumeChange={onVolumeChange}
+          onEqChange={onEqChange}
+          onEqKillToggle={onEqKillToggle}
+          onCrossfaderAssign={onCrossfaderAssign}
+          onLoopAction={onLoopAction}
+          onHotCueAction={onHotCueAction}
+          onQuantizeToggle={onQuantizeToggle}
+          onGridEdit={onGridEdit}
+          onKeyLockToggle={onKeyLockToggle}
+          onAutoSyncToggle={onAutoSyncToggle}
+          onTempoMultiplierChange={onTempoMultiplierChange}
+          onKeyShiftChange={onKeyShiftChange}
+          onKeyMatch={onKeyMatch}
+          onCancelAnalysis={onCancelAnalysis}
+          onEject={onEject}
+          onReplace={onReplace}
+          onSeek={onSeek}
+          visibleBeats={visibleBeats}
+          keyMatchTargets={keyMatchTargets.filter(target => target.id !== track.id)}
         />
       ))}
     </Box>
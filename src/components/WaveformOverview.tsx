@@ -0,0 +1,113 @@
+// React imports
+import { useEffect, useRef } from 'react';
+
+// Local imports
+import { TrackLoop } from '../hooks/useAudioPlayer';
+import { HotCue } from '../utils/trackStorage';
+import { WaveformPeaks, getPeakColumns, getWaveformColor } from '../utils/waveformPeaks';
+
+interface WaveformOverviewProps {
+  peaks: WaveformPeaks | null;
+  audioBuffer: AudioBuffer | null;
+  position: number; // Play position in seconds
+  visibleRange: { start: number; end: number }; // Stretch of the track shown by the scrolling waveform, in seconds
+  phrases: { startTime: number, endTime: number }[]; // Milliseconds
+  hotCues: (HotCue | null)[];
+  loop: TrackLoop | null;
+  onSeek: (time: number) => void;
+}
+
+const OVERVIEW_HEIGHT = 32;
+
+export function WaveformOverview({ peaks, audioBuffer, position, visibleRange, phrases, hotCues, loop, onSeek }: WaveformOverviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = canvas.offsetWidth;
+    canvas.height = OVERVIEW_HEIGHT;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!peaks || !audioBuffer) return;
+
+    const amp = canvas.height / 2;
+    const duration = audioBuffer.duration;
+    const timeToX = (time: number) => (time / duration) * canvas.width;
+    const playheadX = timeToX(position);
+
+    // The whole track, darkened up to the play position
+    const columns = getPeakColumns(peaks, audioBuffer, 0, audioBuffer.length / canvas.width, canvas.width);
+    const scale = amp / (peaks.max || 1);
+    for (let i = 0; i < canvas.width; i++) {
+      const levels = { low: columns.bands.low[i], mid: columns.bands.mid[i], high: columns.bands.high[i] };
+      ctx.strokeStyle = getWaveformColor(levels, peaks.bandMax, i < playheadX ? 0.5 : 0.9);
+      ctx.beginPath();
+      ctx.moveTo(i + 0.5, amp - columns.max[i] * scale);
+      ctx.lineTo(i + 0.5, amp - columns.min[i] * scale + 1);
+      ctx.stroke();
+    }
+
+    // The stretch shown by the scrolling waveform
+    ctx.fillStyle = 'rgba(74, 158, 255, 0.2)';
+    ctx.fillRect(timeToX(visibleRange.start), 0, timeToX(visibleRange.end) - timeToX(visibleRange.start), canvas.height);
+
+    if (loop) {
+      ctx.fillStyle = 'rgba(76, 175, 80, 0.35)';
+      ctx.fillRect(timeToX(loop.start), 0, Math.max(1, timeToX(loop.end) - timeToX(loop.start)), canvas.height);
+    }
+
+    // Phrase starts
+    ctx.strokeStyle = '#888888';
+    ctx.setLineDash([2, 2]);
+    phrases.forEach(phrase => {
+      const x = Math.round(timeToX(phrase.startTime / 1000)) + 0.5;
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, canvas.height);
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Hot cues as coloured flags along the top
+    hotCues.forEach(cue => {
+      if (!cue) return;
+      const x = timeToX(cue.time);
+      ctx.fillStyle = cue.color;
+      ctx.fillRect(x - 1, 0, 2, canvas.height);
+      ctx.beginPath();
+      ctx.moveTo(x - 4, 0);
+      ctx.lineTo(x + 4, 0);
+      ctx.lineTo(x, 5);
+      ctx.fill();
+    });
+
+    // Playhead
+    ctx.fillStyle = '#212121';
+    ctx.fillRect(Math.round(playheadX) - 1, 0, 2, canvas.height);
+  }, [peaks, audioBuffer, position, visibleRange.start, visibleRange.end, phrases, hotCues, loop]);
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!audioBuffer) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    onSeek(fraction * audioBuffer.duration);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      title="Click to seek"
+      style={{
+        width: '100%',
+        height: `${OVERVIEW_HEIGHT}px`,
+        backgroundColor: '#f5f5f5',
+        borderRadius: '4px',
+        display: 'block',
+        cursor: 'pointer'
+      }}
+    />
+  );
+}
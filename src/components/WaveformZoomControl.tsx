@@ -0,0 +1,38 @@
+// Material-UI imports
+import { Box, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+
+interface WaveformZoomControlProps {
+  beats: number;
+  onChange: (beats: number) => void;
+}
+
+// Metronome beats across the scrolling waveforms
+const ZOOM_BEATS = [4, 8, 16, 32, 64];
+
+export function WaveformZoomControl({ beats, onChange }: WaveformZoomControlProps) {
+  return (
+    <Box sx={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 1,
+      flexShrink: 0
+    }}>
+      <Typography variant="body2" color="text.secondary">
+        Zoom
+      </Typography>
+      <ToggleButtonGroup
+        value={beats}
+        exclusive
+        size="small"
+        onChange={(_, value) => value && onChange(value)}
+        title="Beats shown across every deck's waveform"
+      >
+        {ZOOM_BEATS.map(value => (
+          <ToggleButton key={value} value={value} sx={{ minWidth: 0, px: 1 }}>
+            {value}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    </Box>
+  );
+}
@@ -1,47 +1,279 @@
 import { useState, useRef, useEffect } from 'react';
-import * as mm from 'music-metadata';
 import SignalsmithStretch from 'signalsmith-stretch';
-import { detectBeats } from '../utils/beatDetection';
-import { Metronome } from '../Metronome';
+import { AnalysisProgress, BeatDetectionResult, TempoMarker, detectBeats } from '../utils/beatDetection';
+import { WaveformPeaks, computeWaveformPeaks } from '../utils/waveformPeaks';
+import { detectKey } from '../utils/keyDetection';
+import { MusicalKey, findKeyMatchShift, transposeKey } from '../utils/musicalKey';
+import { readTrackMetadata } from '../utils/trackMetadata';
+import { CrossfaderCurve, CrossfaderSide, getCrossfaderGain } from '../utils/crossfader';
+import { getBeatPosition, getPhaseOffset, getTempoAt, getTimeAtBeat, snapToGrid } from '../utils/beatGrid';
+import {
+  HotCue,
+  StoredSession,
+  GridEdits,
+  hashFileContent,
+  loadSession,
+  loadTrackData,
+  saveSession,
+  saveTrackData
+} from '../utils/trackStorage';
+import { ClickSettings, DEFAULT_CLICK, Metronome, TempoRamp, TempoRampCurve } from '../Metronome';
+import { MixRecorder, MixRecording } from '../MixRecorder';
+import { AudioEngine, ChannelEq, EqBand } from '../AudioEngine';
 
-interface TrackMetadata {
+export interface TrackMetadata {
   title: string;
-  key: string;
+  artist: string;
+  key: MusicalKey | null; // From the file's key tag, otherwise estimated by detectKey
+  keyConfidence: number | null; // Confidence of the estimated key, null when it came from a tag
   bpm: number;
+  duration: number | null; // From the file's header, null when unknown
 }
 
 export interface Track {
   id: string;
   file: File;
+  fileKey: string; // Library key of the file, a hash of its content (see hashFileContent)
   metadata: TrackMetadata;
-  audioContext: AudioContext;
+  audioContext: AudioContext; // Shared engine context, the same clock the metronome runs on
   audioBuffer: AudioBuffer | null;
   sourceNode: AudioBufferSourceNode | null;
-  gainNode: GainNode | null;
+  gainNode: GainNode | null; // Deck channel strip, routed into the engine's master bus
   stretchNode: any | null;
+  crossfadeNode: GainNode | null; // Follows gainNode, driven by the crossfader
+  eqNodes: ChannelEq | null; // Sits between stretchNode and gainNode
+  eq: Record<EqBand, number>; // Band gains in dB
+  eqKills: Record<EqBand, boolean>;
+  crossfaderSide: CrossfaderSide;
+  peaks: WaveformPeaks | null;
   beats: number[];
+  tempoMarkers: TempoMarker[]; // Where the grid's tempo changes, empty when it's constant
   phrases: { startTime: number, endTime: number }[];
+  gridEdits: GridEdits; // User grid corrections, applied on top of the analysis
   isPlaying: boolean;
   currentTime: number;
   duration: number;
   volume: number;
   tempo: number;
   originalTempo: number;
+  localTempo: number; // Tempo of the grid segment at the play position, originalTempo for a constant grid
+  tempoMultiplier: number; // Half/double time: the deck is mixed as if its tempo were this multiple of the analysed one
+  phaseOffset: number | null; // Milliseconds from the deck's nearest beat to the metronome tick, positive when ahead; null when not measurable
+  autoSync: boolean; // Keep the deck phase-locked to the metronome by nudging its rate
+  phaseCorrection: number; // Rate correction factor currently applied, 1 for none
   downbeatOffset: number;
+  beatsPerBar: number; // Meter of the grid, detected by the analysis unless set in gridEdits
   clickedBeatIndex: number | null;
   startAudioContextTime: number;
   selectedStartTime: number;
   adjustedStartTime: number;
+  playbackRate: number; // Rate the source is currently playing at, used to track the play position
+  scheduledSegment: ScheduledSegment | null; // Rate change already scheduled at the next tempo marker
+  loop: TrackLoop | null;
+  loopBeats: number; // Length of the active (or next auto) loop in beats
+  loopInTime: number | null; // Pending loop-in point waiting for a loop-out
+  armedAction: ArmedAction | null; // A quantized action waiting for its metronome boundary
+  hotCues: (HotCue | null)[]; // HOT_CUE_COUNT slots, null when empty
+  quantize: boolean; // Snap cue points to the beat grid
+  keyLock: boolean; // Master tempo: keep the original pitch when the rate changes
+  keyShift: number; // Transpose in semitones; the fractional part is fine tuning in cents
+  analysisProgress: AnalysisProgress | null; // Beat analysis progress, null when not analysing
+  analysisController: AbortController | null; // Aborts the running beat and key analysis
 }
 
+// Per-deck settings that are saved with the session and restored with the deck
+export type DeckSettings = Pick<
+  Track,
+  'volume' | 'eq' | 'eqKills' | 'crossfaderSide' | 'quantize' | 'keyLock' | 'keyShift' | 'loopBeats' | 'tempoMultiplier' | 'autoSync'
+>;
+
+/**
+ * A loop region in track time (seconds). Boundaries always sit on the beat grid,
+ * and the source node loops in buffer time, so the loop stays locked to the grid
+ * whatever the playback rate.
+ */
+export interface TrackLoop {
+  start: number;
+  end: number;
+}
+
+/**
+ * The rate change at the next tempo marker, scheduled on the source's playbackRate param ahead of
+ * time so the deck enters the new segment exactly on the marker. Once its time has passed, it
+ * becomes the deck's position anchor.
+ */
+export interface ScheduledSegment {
+  time: number; // AudioContext time the marker plays
+  position: number; // The marker's track time in seconds
+  rate: number;
+  localTempo: number;
+}
+
+export type GridEditAction =
+  | { type: 'nudge'; ms: number }
+  | { type: 'setDownbeat' }
+  | { type: 'setMeter'; beatsPerBar: number }
+  | { type: 'reset' };
+
+export type LoopAction =
+  | { type: 'auto'; beats: number }
+  | { type: 'in' }
+  | { type: 'out' }
+  | { type: 'halve' }
+  | { type: 'double' }
+  | { type: 'move'; direction: 1 | -1 }
+  | { type: 'jump'; direction: 1 | -1 } // Move the play position by the loop length
+  | { type: 'exit' };
+
+// Auto-loop lengths in beats
+export const LOOP_SIZES = [1 / 4, 1 / 2, 1, 2, 4, 8, 16, 32];
+
+// Global quantize: play, cue, loop and beat jump actions wait for the next boundary of this size
+export type QuantizeMode = 'off' | 'beat' | 'bar' | '4bars' | 'phrase';
+
+export const QUANTIZE_MODES: { mode: QuantizeMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'beat', label: '1 beat' },
+  { mode: 'bar', label: '1 bar' },
+  { mode: '4bars', label: '4 bars' },
+  { mode: 'phrase', label: 'Phrase' }
+];
+
+/**
+ * A transport action waiting for its quantize boundary. The action runs just before the
+ * boundary and schedules its audio for the boundary itself.
+ */
+export interface ArmedAction {
+  type: 'play' | 'cue' | 'loop' | 'jump';
+  time: number; // AudioContext time of the boundary
+}
+
+// Bars in a phrase, as in the phrase detection
+const PHRASE_BARS = 8;
+
+// Auto sync pulls a deck back into phase over about this many seconds
+const PHASE_SYNC_TIME = 2;
+
+// Largest rate change auto sync makes, so the correction stays inaudible
+const MAX_PHASE_CORRECTION = 0.01;
+
+// Deck settings that stay with the deck when its track is replaced; the rest belong to the track
+const REPLACE_KEPT_SETTINGS = ['volume', 'eq', 'eqKills', 'crossfaderSide', 'quantize', 'keyLock', 'loopBeats', 'autoSync'] as const;
+
+// How early (in seconds) an armed action runs, leaving time to schedule its audio for the boundary
+const ARM_LOOKAHEAD = 0.05;
+
+// Meters that can be chosen for a deck or the metronome; a beat is one step of the beat grid
+export const TIME_SIGNATURES = [
+  { beatsPerBar: 2, label: '2/4' },
+  { beatsPerBar: 3, label: '3/4' },
+  { beatsPerBar: 4, label: '4/4' },
+  { beatsPerBar: 5, label: '5/4' },
+  { beatsPerBar: 6, label: '6/8' },
+  { beatsPerBar: 7, label: '7/8' }
+];
+
+export type HotCueAction =
+  | { type: 'set' }
+  | { type: 'trigger' }
+  | { type: 'delete' }
+  | { type: 'label'; label: string };
+
+// One colour per hot cue slot
+export const HOT_CUE_COLORS = ['#e53935', '#fb8c00', '#fdd835', '#43a047', '#00acc1', '#1e88e5', '#8e24aa', '#d81b60'];
+export const HOT_CUE_COUNT = HOT_CUE_COLORS.length;
+
+export interface CrossfaderState {
+  position: number; // 0 = fully side A, 1 = fully side B
+  curve: CrossfaderCurve;
+}
+
+// A line of a recording's tracklist: when a track first became audible
+export interface TracklistEntry {
+  time: number; // Seconds from the start of the recording
+  title: string;
+}
+
+export interface RecordedMix extends MixRecording {
+  tracklist: TracklistEntry[];
+}
+
+// Combined volume and crossfader gain below which a deck doesn't count as audible in the tracklist
+const AUDIBLE_GAIN = 0.05;
+
 export const METRONOME_BEAT_EVENT = 'metronomeBeat';
 
+/**
+ * Get the total pitch shift of a track in semitones: its transpose plus, in vinyl
+ * mode, the shift caused by playing faster or slower than the original tempo.
+ */
+export function getTrackPitchShift(track: Track): number {
+  return track.keyShift + (track.keyLock ? 0 : 12 * Math.log2(track.playbackRate));
+}
+
+/**
+ * Get the key a track is currently sounding in, taking any pitch shift into account.
+ */
+export function getTrackKey(track: Track): MusicalKey | null {
+  return track.metadata.key ? transposeKey(track.metadata.key, getTrackPitchShift(track)) : null;
+}
+
+// Get the length of a quantize boundary in metronome beats, or null when quantize is off
+function getQuantizeBeats(mode: QuantizeMode, beatsPerBar: number): number | null {
+  switch (mode) {
+    case 'off':
+      return null;
+    case 'beat':
+      return 1;
+    case 'bar':
+      return beatsPerBar;
+    case '4bars':
+      return 4 * beatsPerBar;
+    case 'phrase':
+      return PHRASE_BARS * beatsPerBar;
+  }
+}
+
+// Get the auto sync rate correction for a phase offset in milliseconds: slow down when ahead, speed up when behind.
+// Rounded to 0.1% steps so small jitter in the measurement doesn't reschedule the rate every frame.
+function getPhaseCorrection(phaseOffset: number): number {
+  const correction = Math.min(MAX_PHASE_CORRECTION, Math.max(-MAX_PHASE_CORRECTION, phaseOffset / 1000 / PHASE_SYNC_TIME));
+  return 1 - Math.round(correction * 1000) / 1000;
+}
+
 export function useAudioPlayer() {
   const [tracks, setTracks] = useState<Track[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [crossfader, setCrossfader] = useState<CrossfaderState>({ position: 0.5, curve: 'constantPower' });
+  const [tempo, setTempo] = useState<number>(120);
+  const [beatsPerBar, setBeatsPerBar] = useState<number>(4);
+  const [click, setClick] = useState<ClickSettings>(DEFAULT_CLICK);
+  const [pendingSession, setPendingSession] = useState<StoredSession | null>(null);
+  const [isRecording, setIsRecording] = useState<boolean>(false);
+  const [recordedMix, setRecordedMix] = useState<RecordedMix | null>(null);
+  const [quantizeMode, setQuantizeMode] = useState<QuantizeMode>('off');
+  const [waveformBeats, setWaveformBeats] = useState<number>(16); // Metronome beats across every deck's scrolling waveform
+  const sessionLoadedRef = useRef<boolean>(false);
   const animationFrameRef = useRef<number | null>(null);
   const metronomeInitializedRef = useRef<boolean>(false);
-  const metronomeRef = useRef<Metronome>(new Metronome(120));
+  const engineRef = useRef<AudioEngine | null>(null);
+  const metronomeRef = useRef<Metronome | null>(null);
+  const recorderRef = useRef<MixRecorder | null>(null);
+  const tempoRampRef = useRef<TempoRamp | null>(null); // The ramp seen on the last render, to notice when it ends
+  const tracklistRef = useRef<TracklistEntry[]>([]);
+  const audibleTrackIdsRef = useRef<Set<string>>(new Set());
+  const tracksRef = useRef<Track[]>([]); // The latest tracks, for armed actions firing from a timer
+  const armedTimersRef = useRef<Map<string, number>>(new Map()); // Pending armed action timers by track id
+
+  // Create the shared engine and metronome once; every deck hangs off the same AudioContext
+  if (!engineRef.current) {
+    engineRef.current = new AudioEngine();
+    metronomeRef.current = new Metronome(engineRef.current.context, 120);
+    recorderRef.current = new MixRecorder(engineRef.current.context, engineRef.current.masterGain);
+  }
+  const engine = engineRef.current;
+  const metronome = metronomeRef.current!;
+  const recorder = recorderRef.current!;
 
   // Initialize metronome only once
   useEffect(() => {
@@ -49,8 +281,8 @@ export function useAudioPlayer() {
       if (!metronomeInitializedRef.current) {
         try {
           metronomeInitializedRef.current = true;
-          await metronomeRef.current.initialize();
-          await metronomeRef.current.start();
+          await metronome.initialize();
+          await metronome.start();
           setError(null);
         } catch (err) {
           console.error('Failed to initialize metronome:', err);
@@ -60,22 +292,165 @@ export function useAudioPlayer() {
       }
     };
     initializeMetronome();
-  }, [metronomeRef]);
+  }, [metronome]);
+
+  // Offer to restore the last session once on startup
+  useEffect(() => {
+    loadSession().then(session => {
+      sessionLoadedRef.current = true;
+      if (session && session.decks.length > 0) {
+        setPendingSession(session);
+      }
+    });
+  }, []);
+
+  // Only the persisted parts of the session; this changes on settings edits, not on every playback frame
+  const sessionSnapshot = JSON.stringify({
+    tempo,
+    beatsPerBar,
+    click,
+    crossfader,
+    decks: tracks.map(track => ({
+      fileKey: track.fileKey,
+      settings: {
+        volume: track.volume,
+        eq: track.eq,
+        eqKills: track.eqKills,
+        crossfaderSide: track.crossfaderSide,
+        quantize: track.quantize,
+        keyLock: track.keyLock,
+        keyShift: track.keyShift,
+        loopBeats: track.loopBeats,
+        tempoMultiplier: track.tempoMultiplier,
+        autoSync: track.autoSync
+      }
+    }))
+  });
+
+  // Save the session shortly after it changes
+  useEffect(() => {
+    // Don't overwrite the stored session before the user has had a chance to restore it
+    if (!sessionLoadedRef.current || pendingSession) return;
+
+    const timeout = setTimeout(() => {
+      saveSession({ ...JSON.parse(sessionSnapshot), savedAt: Date.now() });
+    }, 500);
+    return () => clearTimeout(timeout);
+  }, [sessionSnapshot, pendingSession]);
+
+  // Helper function to get the play position in track time at an audio time (now by default), accounting for rate and looping
+  const getPlaybackPosition = (track: Track, time: number = track.audioContext.currentTime): number => {
+    // The rate is proportional to the metronome tempo since the last anchor, which may have been ramping
+    const clock = metronomeRef.current!;
+    const elapsedBeats = clock.getBeatsBetween(track.startAudioContextTime, time);
+    const elapsed = (elapsedBeats * 60 / clock.getTempo(track.startAudioContextTime)) * track.playbackRate;
+    let position = track.adjustedStartTime + elapsed;
+
+    // Past a scheduled tempo marker the deck plays on from the marker at the new segment's rate
+    const segment = track.scheduledSegment;
+    if (segment && time >= segment.time) {
+      position = segment.position + (time - segment.time) * segment.rate;
+    }
+
+    if (track.loop && position >= track.loop.end) {
+      const loopLength = track.loop.end - track.loop.start;
+      return track.loop.start + ((position - track.loop.start) % loopLength);
+    }
+    return position;
+  };
+
+  // Helper function to measure a deck's phase against the metronome at a play position, in milliseconds
+  const getDeckPhaseOffset = (track: Track, position: number): number | null => {
+    const clock = metronomeRef.current!;
+    const clockBeat = clock.getBeatCountAt();
+    if (clockBeat === null || track.beats.length < 2) return null;
+
+    // With half/double time one grid beat spans a different number of metronome beats
+    const deckBeat = getBeatPosition(track.beats, position) * track.tempoMultiplier;
+    return (getPhaseOffset(deckBeat, clockBeat) * 60000) / clock.getTempo();
+  };
+
+  // Helper function to make a scheduled tempo marker that has played the deck's position anchor
+  const commitScheduledSegment = (track: Track): boolean => {
+    const segment = track.scheduledSegment;
+    if (!segment || track.audioContext.currentTime < segment.time) return false;
+    track.adjustedStartTime = segment.position;
+    track.startAudioContextTime = segment.time;
+    track.playbackRate = segment.rate;
+    track.localTempo = segment.localTempo;
+    track.scheduledSegment = null;
+    return true;
+  };
+
+  // Helper function to schedule the rate change at the next tempo marker on the playbackRate param,
+  // from a fresh anchor. During a metronome ramp the rate isn't known ahead, so the marker is left to
+  // the render effect that follows the grid.
+  const scheduleNextSegment = (track: Track) => {
+    track.scheduledSegment = null;
+    if (!track.isPlaying || !track.sourceNode || !track.stretchNode || metronome.getRamp()) return;
+
+    const marker = track.tempoMarkers.find(m => m.time / 1000 > track.adjustedStartTime + 0.001);
+    if (!marker) return;
+    const position = marker.time / 1000;
+    // A loop that ends first never reaches the marker
+    if (track.loop && position >= track.loop.end) return;
+
+    const time = track.startAudioContextTime + (position - track.adjustedStartTime) / track.playbackRate;
+    const rate = metronome.getTempo() * track.phaseCorrection / (marker.bpm * track.tempoMultiplier);
+    track.sourceNode.playbackRate.setValueAtTime(rate, time);
+    updateStretch(track, rate, time);
+    track.scheduledSegment = { time, position, rate, localTempo: marker.bpm };
+  };
+
+  // Helper function to restart position tracking from the current position, before the rate or loop changes
+  const reanchorPlaybackPosition = (track: Track) => {
+    if (!track.isPlaying) return;
+    commitScheduledSegment(track);
+    track.adjustedStartTime = getPlaybackPosition(track);
+    track.startAudioContextTime = track.audioContext.currentTime;
+  };
 
   // Helper function to adjust playback rate and pitch
   const adjustPlaybackRate = (
     track: Track,
     correctionFactor: number = 1
   ) => {
-    if (!track.sourceNode || !track.stretchNode || !metronomeRef.current) return;
+    if (!track.sourceNode || !track.stretchNode) return;
     
-    const rate = (metronomeRef.current.getTempo() / track.originalTempo) * correctionFactor;
+    // Reanchor first so the local tempo is looked up at the current position
+    reanchorPlaybackPosition(track);
+    track.localTempo = getTempoAt(track.tempoMarkers, track.adjustedStartTime, track.originalTempo);
+    track.phaseCorrection = correctionFactor;
+    const rateScale = correctionFactor / (track.localTempo * track.tempoMultiplier);
+    const rate = metronome.getTempo() * rateScale;
     
     // Use setValueAtTime for precise timing
-    track.sourceNode.playbackRate.setValueAtTime(rate, track.audioContext.currentTime);
-    
-    const semitones = -12 * Math.log2(rate);
-    track.stretchNode.schedule({ rate, semitones });
+    const now = track.audioContext.currentTime;
+    const playbackRate = track.sourceNode.playbackRate;
+    playbackRate.cancelScheduledValues(now);
+    playbackRate.setValueAtTime(rate, now);
+    track.playbackRate = rate;
+
+    // Follow a metronome ramp with the same curve, so the deck's rate stays proportional to the tempo
+    const ramp = metronome.getRamp();
+    if (ramp) {
+      if (ramp.startTime > now) playbackRate.setValueAtTime(rate, ramp.startTime);
+      if (ramp.curve === 'linear') {
+        playbackRate.linearRampToValueAtTime(ramp.to * rateScale, ramp.endTime);
+      } else {
+        playbackRate.exponentialRampToValueAtTime(ramp.to * rateScale, ramp.endTime);
+      }
+    }
+
+    updateStretch(track, rate);
+    scheduleNextSegment(track);
+  };
+
+  // Helper function to set the stretch node's pitch for a source rate, now or at an AudioContext time
+  const updateStretch = (track: Track, rate: number, time?: number) => {
+    // Key lock compensates the source's pitch change; without it pitch follows speed like vinyl
+    const semitones = (track.keyLock ? -12 * Math.log2(rate) : 0) + track.keyShift;
+    track.stretchNode.schedule(time === undefined ? { rate, semitones } : { rate, semitones, output: time });
   };
 
   // Helper function to update a specific track
@@ -89,15 +464,18 @@ export function useAudioPlayer() {
     );
   };
 
+  // Keep the latest tracks where armed action timers can find them
+  useEffect(() => {
+    tracksRef.current = tracks;
+  });
+
   // Update current time while playing
   useEffect(() => {
     const updateTime = () => {
       tracks.forEach(track => {
         if (track.isPlaying && track.sourceNode && track.startAudioContextTime !== null) {
-          const elapsed = (track.audioContext.currentTime || 0) - track.startAudioContextTime;
-          const currentTime = track.adjustedStartTime + elapsed;
-          updateTrack(track.id, { currentTime: currentTime });
-
+          const currentTime = getPlaybackPosition(track);
+          updateTrack(track.id, { currentTime: currentTime, phaseOffset: getDeckPhaseOffset(track, currentTime) });
         }
       });
       animationFrameRef.current = requestAnimationFrame(updateTime);
@@ -112,12 +490,75 @@ export function useAudioPlayer() {
     };
   }, [tracks]);
 
-  const initAudio = async () => {
+  // Follow the grid into each new tempo segment so the decks stay locked to the metronome,
+  // and keep key-locked decks at their pitch while a tempo ramp changes their rate
+  useEffect(() => {
+    const ramp = metronome.getRamp();
+    if (tempoRampRef.current && !ramp) {
+      // The ramp has finished: settle the decks on the final rate and pitch
+      tracks.forEach(track => adjustPlaybackRate(track, 1));
+    }
+    tempoRampRef.current = ramp;
+
+    tracks.forEach(track => {
+      if (!track.isPlaying) return;
+      if (commitScheduledSegment(track)) {
+        // The marker's rate change has played on the param; anchor there and schedule the next one
+        scheduleNextSegment(track);
+        updateTrack(track.id, {
+          localTempo: track.localTempo,
+          playbackRate: track.playbackRate,
+          adjustedStartTime: track.adjustedStartTime,
+          startAudioContextTime: track.startAudioContextTime,
+          scheduledSegment: track.scheduledSegment
+        });
+      } else if (!track.scheduledSegment && getTempoAt(track.tempoMarkers, track.currentTime, track.originalTempo) !== track.localTempo) {
+        // Segments entered without a scheduled change, such as a loop wrapping back over a marker or during a ramp
+        adjustPlaybackRate(track, 1);
+        updateTrack(track.id, { localTempo: track.localTempo });
+      } else if (ramp && track.stretchNode) {
+        const anchorTempo = metronome.getTempo(track.startAudioContextTime);
+        updateStretch(track, track.playbackRate * metronome.getTempo() / anchorTempo);
+      }
+    });
+  });
+
+  // Auto sync: nudge each locked deck's rate in proportion to its phase offset until it's back on the tick
+  useEffect(() => {
+    tracks.forEach(track => {
+      if (!track.isPlaying) return;
+      const correction = track.autoSync && track.phaseOffset !== null ? getPhaseCorrection(track.phaseOffset) : 1;
+      if (correction !== track.phaseCorrection) {
+        adjustPlaybackRate(track, correction);
+      }
+    });
+  });
+
+  // While recording, note each track as it becomes audible for the tracklist
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const audibleTrackIds = new Set(
+      tracks
+        .filter(track =>
+          track.isPlaying &&
+          track.volume * getCrossfaderGain(crossfader.position, track.crossfaderSide, crossfader.curve) > AUDIBLE_GAIN
+        )
+        .map(track => track.id)
+    );
+    tracks.forEach(track => {
+      if (audibleTrackIds.has(track.id) && !audibleTrackIdsRef.current.has(track.id)) {
+        tracklistRef.current.push({ time: recorder.getElapsed(), title: track.metadata.title });
+      }
+    });
+    audibleTrackIdsRef.current = audibleTrackIds;
+  });
+
+  const initAudio = () => {
     try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const gainNode = audioContext.createGain();
-      gainNode.connect(audioContext.destination);
-      return { audioContext, gainNode };
+      const { gainNode, crossfadeNode } = engine.createChannel();
+      const eqNodes = engine.createEqualizer(gainNode);
+      return { audioContext: engine.context, gainNode, crossfadeNode, eqNodes };
     } catch (error) {
       console.error('Error initializing audio:', error);
       return null;
@@ -125,28 +566,7 @@ export function useAudioPlayer() {
   };
 
   const readMetadata = async (file: File): Promise<TrackMetadata> => {
-    try {
-      const arrayBuffer = await file.arrayBuffer();
-      const buffer = new Uint8Array(arrayBuffer);
-      const metadata = await mm.parseBuffer(buffer, file.type);
-
-      const title = metadata.common.title || file.name;
-      const key = metadata.common.key || 'Unknown';
-      const bpm = metadata.common.bpm || 0;
-
-      return {
-        title,
-        key,
-        bpm
-      };
-    } catch (error) {
-      console.error('Error reading metadata:', error);
-      return {
-        title: file.name,
-        key: 'Unknown',
-        bpm: 0
-      };
-    }
+    return readTrackMetadata(new Uint8Array(await file.arrayBuffer()), file);
   };
 
   const initAudioProcessing = async (track: Track) => {
@@ -160,9 +580,11 @@ export function useAudioPlayer() {
       stretchNode.start();
       adjustPlaybackRate(track, 1);
 
-      // Connect the audio processing chain
+      // Connect the audio processing chain: source → stretch → EQ → channel gain
       sourceNode.connect(stretchNode);
-      if (track.gainNode) {
+      if (track.eqNodes) {
+        stretchNode.connect(track.eqNodes.input);
+      } else if (track.gainNode) {
         stretchNode.connect(track.gainNode);
       }
       track.sourceNode = sourceNode;
@@ -174,100 +596,497 @@ export function useAudioPlayer() {
     }
   };
 
-  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      console.log('Loading audio file:', file.name);
+  // Load a file onto a new deck, or in place of a deck's track, reusing its stored analysis and applying any restored settings
+  const loadFile = async (
+    file: File,
+    settings: Partial<DeckSettings> = {},
+    crossfaderState: CrossfaderState = crossfader,
+    replacedTrack: Track | null = null
+  ) => {
+    console.log('Loading audio file:', file.name);
 
-      const audioSetup = await initAudio();
-      if (!audioSetup) {
-        console.error('Failed to initialize audio context');
-        return;
-      }
+    // Hash before decoding, which detaches the array buffer
+    const arrayBuffer = await file.arrayBuffer();
+    const fileKey = await hashFileContent(arrayBuffer);
+    const storedData = await loadTrackData(fileKey, file);
+    const trackMetadata = storedData.metadata ?? await readMetadata(file);
 
-      const trackMetadata = await readMetadata(file);
-
-      const arrayBuffer = await file.arrayBuffer();
-      const audioBuffer = await audioSetup.audioContext.decodeAudioData(arrayBuffer);
-      if (audioBuffer) {
-        const newTrack: Track = {
-          id: crypto.randomUUID(),
-          file,
-          metadata: trackMetadata,
-          audioContext: audioSetup.audioContext,
-          audioBuffer: audioBuffer,
-          sourceNode: null,
-          gainNode: audioSetup.gainNode,
-          stretchNode: null,
-          beats: [],
-          phrases: [],
-          isPlaying: false,
-          currentTime: 0,
-          duration: audioBuffer.duration,
-          volume: 1,
-          tempo: 120,
-          originalTempo: trackMetadata.bpm || 120,
-          downbeatOffset: 0,
-          clickedBeatIndex: null,
-          startAudioContextTime: 0,
-          selectedStartTime: 0,
-          adjustedStartTime: 0
-        };
+    let audioBuffer: AudioBuffer;
+    try {
+      audioBuffer = await engine.context.decodeAudioData(arrayBuffer);
+    } catch (error) {
+      console.error('Error decoding audio file:', error);
+      setError(`Could not decode ${file.name}. It may not be an audio file, or its format isn't supported by this browser.`);
+      return;
+    }
+
+    // The deck's channel strip is only created once there is a track to play through it
+    const audioSetup = initAudio();
+    if (!audioSetup) {
+      console.error('Failed to initialize audio context');
+      return;
+    }
+
+    if (audioBuffer) {
+      const gridEdits = storedData.gridEdits ?? {};
+      const analysis = storedData.analysis ? { ...storedData.analysis, ...gridEdits } : undefined;
+      // Peaks cached in an older format, without band levels or coarser levels, are recomputed
+      const cachedPeaks = storedData.peaks?.levels ? storedData.peaks : null;
+      const peaks = cachedPeaks ?? computeWaveformPeaks(audioBuffer);
+      const newTrack: Track = {
+        id: crypto.randomUUID(),
+        file,
+        fileKey,
+        metadata: trackMetadata,
+        audioContext: audioSetup.audioContext,
+        audioBuffer: audioBuffer,
+        sourceNode: null,
+        gainNode: audioSetup.gainNode,
+        stretchNode: null,
+        crossfadeNode: audioSetup.crossfadeNode,
+        eqNodes: audioSetup.eqNodes,
+        eq: { low: 0, mid: 0, high: 0 },
+        eqKills: { low: false, mid: false, high: false },
+        crossfaderSide: 'thru',
+        peaks,
+        beats: analysis?.beatTimes ?? [],
+        tempoMarkers: analysis?.tempoMarkers ?? [],
+        phrases: analysis?.phrases ?? [],
+        gridEdits,
+        isPlaying: false,
+        currentTime: 0,
+        duration: audioBuffer.duration,
+        volume: 1,
+        tempo: 120,
+        originalTempo: analysis?.bpm ?? (trackMetadata.bpm || 120),
+        localTempo: analysis?.tempoMarkers?.[0]?.bpm ?? analysis?.bpm ?? (trackMetadata.bpm || 120),
+        tempoMultiplier: 1,
+        phaseOffset: null,
+        autoSync: false,
+        phaseCorrection: 1,
+        downbeatOffset: analysis?.downbeatOffset ?? 0,
+        beatsPerBar: analysis?.beatsPerBar ?? 4,
+        clickedBeatIndex: null,
+        startAudioContextTime: 0,
+        selectedStartTime: 0,
+        adjustedStartTime: 0,
+        playbackRate: 1,
+        scheduledSegment: null,
+        loop: null,
+        loopBeats: 4,
+        loopInTime: null,
+        armedAction: null,
+        hotCues: Array.from({ length: HOT_CUE_COUNT }, (_, slot) => storedData.hotCues?.[slot] ?? null),
+        quantize: true,
+        keyLock: true,
+        keyShift: 0,
+        analysisProgress: null,
+        analysisController: null,
+        ...settings
+      };
 
-        // Initialize audio processing
-        await initAudioProcessing(newTrack);
+      // Initialize audio processing
+      await initAudioProcessing(newTrack);
 
-        if (newTrack.gainNode) {
-          newTrack.gainNode.gain.value = newTrack.volume;
+      if (newTrack.gainNode) {
+        newTrack.gainNode.gain.value = newTrack.volume;
+      }
+      if (newTrack.eqNodes) {
+        for (const band of Object.keys(newTrack.eq) as EqBand[]) {
+          engine.setEqBand(newTrack.eqNodes, band, newTrack.eq[band], newTrack.eqKills[band]);
         }
+      }
+      applyCrossfader(newTrack, crossfaderState);
+
+      saveTrackData(fileKey, { file, fileName: file.name, metadata: trackMetadata, ...(cachedPeaks ? {} : { peaks }) });
 
-        detectBeats(audioBuffer).then(({ beatTimes, phrases, bpm, downbeatOffset }) => {
-          updateTrack(newTrack.id, {
-            originalTempo: bpm,
-            beats: beatTimes,
-            phrases,
-            downbeatOffset
+      // Analyse what isn't cached in the analysis worker, beats first; the one controller cancels both
+      if (!analysis || !trackMetadata.key) {
+        const controller = new AbortController();
+        newTrack.analysisController = controller;
+
+        let detectingBeats: Promise<void> = Promise.resolve();
+        if (!analysis) {
+          newTrack.analysisProgress = { stage: 'filtering', progress: 0 };
+          detectingBeats = detectBeats(audioBuffer, {
+            signal: controller.signal,
+            onProgress: (progress) => updateTrack(newTrack.id, { analysisProgress: progress })
+          }).then((result) => {
+            // The analysis is cached as-is; any grid edits still take precedence over it
+            saveTrackData(fileKey, { analysis: result });
+            const { beatTimes, tempoMarkers, phrases, bpm, downbeatOffset, beatsPerBar } = { ...result, ...gridEdits };
+            updateTrack(newTrack.id, {
+              originalTempo: bpm,
+              localTempo: getTempoAt(tempoMarkers, 0, bpm),
+              beats: beatTimes,
+              tempoMarkers,
+              phrases,
+              downbeatOffset,
+              beatsPerBar,
+              analysisProgress: null
+            });
+          }).catch((error) => {
+            // A failed beat analysis still leaves the key to estimate; a cancelled one cancels both
+            if (error instanceof DOMException && error.name === 'AbortError') throw error;
+            console.error('Error detecting beats:', error);
           });
+        }
+
+        detectingBeats.then(async () => {
+          // Only estimate the key when the file has no usable key tag
+          if (trackMetadata.key) return;
+          const { key, confidence } = await detectKey(audioBuffer, { signal: controller.signal });
+          const metadata = { ...trackMetadata, key, keyConfidence: confidence };
+          updateTrack(newTrack.id, { metadata });
+          saveTrackData(fileKey, { metadata });
+        }).catch((error) => {
+          // A cancelled analysis was replaced by a newer one, so there is nothing to report
+          if (!(error instanceof DOMException && error.name === 'AbortError')) {
+            console.error('Error detecting key:', error);
+          }
+        }).finally(() => {
+          updateTrack(newTrack.id, { analysisProgress: null, analysisController: null });
         });
+      }
 
+      if (replacedTrack) {
+        // The old track plays on until the new one is ready, then the swap happens in one step
+        releaseTrack(tracksRef.current.find(track => track.id === replacedTrack.id) ?? replacedTrack);
+        setTracks(prevTracks => prevTracks.map(track => track.id === replacedTrack.id ? newTrack : track));
+      } else {
         setTracks(prevTracks => [...prevTracks, newTrack]);
       }
     }
   };
 
-  const handlePlayPause = async (trackId: string) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      await loadFile(file);
+    }
+  };
+
+  // Load a file from the library onto a new deck, or in place of a deck's track
+  const handleLoadFile = async (file: File, trackId?: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (track) {
+      await handleReplaceTrack(track.id, file);
+    } else {
+      await loadFile(file);
+    }
+  };
+
+  // Helper function to stop a track and release everything it holds: its node graph,
+  // any running analysis or armed action, and its decoded audio
+  const releaseTrack = (track: Track) => {
+    cancelArmedAction(track.id);
+    track.analysisController?.abort();
+
+    if (track.sourceNode) {
+      // Only a started source can be stopped; the one created at load time never is
+      if (track.isPlaying) track.sourceNode.stop();
+      track.sourceNode.disconnect();
+    }
+    if (track.stretchNode) {
+      track.stretchNode.stop();
+      track.stretchNode.disconnect();
+      track.stretchNode.port.close();
+    }
+    if (track.gainNode && track.crossfadeNode) {
+      engine.disposeChannel({ gainNode: track.gainNode, crossfadeNode: track.crossfadeNode }, track.eqNodes);
+    }
+
+    track.isPlaying = false;
+    track.scheduledSegment = null;
+    track.sourceNode = null;
+    track.stretchNode = null;
+    track.gainNode = null;
+    track.crossfadeNode = null;
+    track.eqNodes = null;
+    track.audioBuffer = null;
+    track.peaks = null;
+  };
+
+  const handleEjectTrack = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    releaseTrack(track);
+    setTracks(prevTracks => prevTracks.filter(t => t.id !== trackId));
+  };
+
+  // Load a new file into a deck, keeping its mixer settings
+  const handleReplaceTrack = async (trackId: string, file: File) => {
     const track = tracks.find(t => t.id === trackId);
     if (!track) return;
 
+    const settings = Object.fromEntries(REPLACE_KEPT_SETTINGS.map(setting => [setting, track[setting]]));
+    await loadFile(file, settings, crossfader, track);
+  };
+
+  const handleCancelAnalysis = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    track?.analysisController?.abort();
+  };
+
+  // Reload the decks, mixer settings and tempo of the last session from the library
+  const handleRestoreSession = async () => {
+    const session = pendingSession;
+    setPendingSession(null);
+    if (!session) return;
+
     try {
-      if (track.audioContext.state === 'suspended') {
-        await track.audioContext.resume();
-      }
+      metronome.setTempo(session.tempo);
+      setTempo(session.tempo);
+      // Sessions saved by older versions have no meter or click settings
+      metronome.setBeatsPerBar(session.beatsPerBar ?? 4);
+      setBeatsPerBar(session.beatsPerBar ?? 4);
+      metronome.setClick(session.click ?? DEFAULT_CLICK);
+      setClick(metronome.getClick());
+    } catch (error) {
+      console.error('Error restoring tempo:', error);
+    }
+    setCrossfader(session.crossfader);
 
-      if (track.isPlaying) {
-        track.sourceNode?.stop();
+    for (const deck of session.decks) {
+      const { file } = await loadTrackData(deck.fileKey);
+      if (!file) {
+        console.warn('File for restored deck is no longer in the library:', deck.fileKey);
+        continue;
       }
+      await loadFile(file, deck.settings, session.crossfader);
+    }
+  };
 
-      // Start playback
-      const sourceNode = track.audioContext.createBufferSource();
-      sourceNode.buffer = track.audioBuffer;
-      sourceNode.connect(track.stretchNode!);
-      track.sourceNode = sourceNode;
+  const handleDismissSession = () => {
+    setPendingSession(null);
+  };
 
-      adjustPlaybackRate(track, 1);
+  // Helper function to (re)start a track's source so that startTime lands on the next metronome beat,
+  // or exactly at an AudioContext time when one is given (a quantize boundary, or now for a beat jump)
+  const startPlayback = async (track: Track, startTime: number, at?: number) => {
+    await engine.resume();
 
-      const timeUntilNextBeat = metronomeRef.current?.getTimeUntilNextBeat() || 0;
-      const adjustedStartTime = track.selectedStartTime - timeUntilNextBeat;
-      console.log(timeUntilNextBeat);
-      sourceNode.start(0, adjustedStartTime);
-      adjustPlaybackRate(track, 1);
+    if (track.isPlaying) {
+      track.sourceNode?.stop(at);
+    }
+
+    const sourceNode = track.audioContext.createBufferSource();
+    sourceNode.buffer = track.audioBuffer;
+    sourceNode.connect(track.stretchNode!);
+    track.sourceNode = sourceNode;
+    applyLoop(track);
+
+    // Anchor at the start time so the rate follows the grid's tempo there
+    track.adjustedStartTime = startTime;
+    track.startAudioContextTime = at ?? track.audioContext.currentTime;
+    adjustPlaybackRate(track, 1);
+
+    if (at !== undefined) {
+      // A timer that fired late still starts in phase, skipping the audio it missed
+      const lateness = Math.max(0, track.audioContext.currentTime - at);
+      sourceNode.start(at + lateness, startTime + lateness * track.playbackRate);
+      track.startAudioContextTime = at;
+      track.adjustedStartTime = startTime;
+      track.isPlaying = true;
+      scheduleNextSegment(track);
+      return;
+    }
 
-      track.startAudioContextTime = track.audioContext.currentTime;
-      updateTrack(trackId, { isPlaying: true, adjustedStartTime: adjustedStartTime });
+    // Pre-roll by the buffer time that will play before the next beat
+    const timeUntilNextBeat = metronome.getTimeUntilNextBeat() || 0;
+    const adjustedStartTime = startTime - timeUntilNextBeat * track.playbackRate;
 
+    // A negative offset (start time near the top of the track) is handled by delaying the start instead
+    const now = track.audioContext.currentTime;
+    sourceNode.start(now + Math.max(0, -adjustedStartTime) / track.playbackRate, Math.max(0, adjustedStartTime));
+
+    track.startAudioContextTime = now;
+    track.adjustedStartTime = adjustedStartTime;
+    track.isPlaying = true;
+    scheduleNextSegment(track);
+  };
+
+  // Helper function to start playback from a position and publish the new play state
+  const playFrom = async (track: Track, startTime: number, at?: number, updates: Partial<Track> = {}) => {
+    try {
+      await startPlayback(track, startTime, at);
+      updateTrack(track.id, {
+        ...updates,
+        isPlaying: true,
+        adjustedStartTime: track.adjustedStartTime,
+        startAudioContextTime: track.startAudioContextTime
+      });
     } catch (error) {
-      console.error('Error handling play/pause:', error);
+      console.error('Error starting playback:', error);
+    }
+  };
+
+  // Helper function to drop a track's armed action before it fires
+  const cancelArmedAction = (trackId: string) => {
+    const timer = armedTimersRef.current.get(trackId);
+    if (timer === undefined) return;
+    clearTimeout(timer);
+    armedTimersRef.current.delete(trackId);
+    updateTrack(trackId, { armedAction: null });
+  };
+
+  // Helper function to run a transport action on the next quantize boundary, replacing any armed action.
+  // The action gets the boundary's AudioContext time, or no time when it runs unquantized. Loops and
+  // beat jumps on a stopped deck just move points around, so they never wait.
+  const runQuantized = (
+    track: Track,
+    type: ArmedAction['type'],
+    action: (track: Track, time?: number) => void
+  ) => {
+    cancelArmedAction(track.id);
+    const beats = getQuantizeBeats(quantizeMode, beatsPerBar);
+    const waits = track.isPlaying || type === 'play' || type === 'cue';
+    const time = beats !== null && waits ? metronome.getNextBoundaryTime(beats) : null;
+    if (time === null) {
+      action(track);
+      return;
+    }
+
+    const delay = Math.max(0, time - track.audioContext.currentTime - ARM_LOOKAHEAD);
+    const timer = window.setTimeout(() => {
+      armedTimersRef.current.delete(track.id);
+      const current = tracksRef.current.find(t => t.id === track.id);
+      if (!current) return;
+      updateTrack(track.id, { armedAction: null });
+      action(current, time);
+    }, delay * 1000);
+    armedTimersRef.current.set(track.id, timer);
+    updateTrack(track.id, { armedAction: { type, time } });
+  };
+
+  const handlePlayPause = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    runQuantized(track, 'play', (current, time) => playFrom(current, current.selectedStartTime, time));
+  };
+
+  const handleCancelArmedAction = (trackId: string) => {
+    cancelArmedAction(trackId);
+  };
+
+  const handleQuantizeModeChange = (mode: QuantizeMode) => {
+    setQuantizeMode(mode);
+  };
+
+  const handleWaveformZoomChange = (beats: number) => {
+    setWaveformBeats(beats);
+  };
+
+  // Seek from the overview. A playing deck moves by whole beats so it stays in phase, waiting for the
+  // next quantize boundary like a beat jump; a stopped deck just moves its start point.
+  const handleSeek = (trackId: string, time: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    runQuantized(track, 'jump', (current, at) => {
+      if (!current.isPlaying) {
+        updateTrack(current.id, { selectedStartTime: time, currentTime: time });
+        return;
+      }
+
+      const from = getPlaybackPosition(current, at);
+      let to = time;
+      if (current.beats.length > 1) {
+        const fromBeat = getBeatPosition(current.beats, from);
+        to = getTimeAtBeat(current.beats, fromBeat + Math.round(getBeatPosition(current.beats, time) - fromBeat));
+      }
+      playFrom(current, Math.min(current.duration, Math.max(0, to)), at ?? current.audioContext.currentTime);
+    });
+  };
+
+  const handleHotCueAction = (trackId: string, slot: number, action: HotCueAction) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    const hotCues = [...track.hotCues];
+    const cue = hotCues[slot];
+
+    switch (action.type) {
+      case 'set': {
+        let time = track.isPlaying ? getPlaybackPosition(track) : track.selectedStartTime;
+        if (track.quantize && track.beats.length >= 2) {
+          time = Math.max(0, snapToGrid(track.beats, time));
+        }
+        hotCues[slot] = { time, label: cue?.label ?? '', color: HOT_CUE_COLORS[slot] };
+        break;
+      }
+      case 'trigger':
+        if (!cue) return;
+        runQuantized(track, 'cue', (current, time) => playFrom(current, cue.time, time, { selectedStartTime: cue.time }));
+        return;
+      case 'delete':
+        hotCues[slot] = null;
+        break;
+      case 'label':
+        if (!cue) return;
+        hotCues[slot] = { ...cue, label: action.label };
+        break;
     }
+
+    saveTrackData(track.fileKey, { hotCues });
+    updateTrack(trackId, { hotCues });
+  };
+
+  const handleGridEdit = async (trackId: string, action: GridEditAction) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || track.beats.length === 0) return;
+
+    let gridEdits: GridEdits;
+    switch (action.type) {
+      case 'nudge':
+        // Phrases move with the beats so their boundaries stay on the grid
+        gridEdits = {
+          ...track.gridEdits,
+          beatTimes: track.beats.map(beat => beat + action.ms),
+          tempoMarkers: track.tempoMarkers.map(marker => ({ ...marker, time: marker.time + action.ms })),
+          phrases: track.phrases.map(phrase => ({ startTime: phrase.startTime + action.ms, endTime: phrase.endTime + action.ms }))
+        };
+        break;
+      case 'setDownbeat': {
+        // Make the selected beat the first beat of a bar
+        const beatIndex = track.clickedBeatIndex ?? 0;
+        gridEdits = { ...track.gridEdits, downbeatOffset: beatIndex % track.beatsPerBar };
+        break;
+      }
+      case 'setMeter':
+        // Keep the current first downbeat where it is
+        gridEdits = {
+          ...track.gridEdits,
+          beatsPerBar: action.beatsPerBar,
+          downbeatOffset: track.downbeatOffset % action.beatsPerBar
+        };
+        break;
+      case 'reset':
+        gridEdits = {};
+        break;
+    }
+
+    // Fall back to the cached analysis for anything the edits don't override
+    const { analysis } = await loadTrackData(track.fileKey);
+    const grid: Partial<BeatDetectionResult> = { ...analysis, ...gridEdits };
+    saveTrackData(track.fileKey, { gridEdits });
+    updateTrack(trackId, {
+      gridEdits,
+      beats: grid.beatTimes ?? track.beats,
+      tempoMarkers: grid.tempoMarkers ?? [],
+      phrases: grid.phrases ?? track.phrases,
+      originalTempo: grid.bpm ?? track.originalTempo,
+      downbeatOffset: grid.downbeatOffset ?? track.downbeatOffset,
+      beatsPerBar: grid.beatsPerBar ?? 4
+    });
+  };
+
+  const handleQuantizeToggle = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    updateTrack(trackId, { quantize: !track.quantize });
   };
 
   const handleVolumeChange = (trackId: string, newValue: number | number[]) => {
@@ -276,14 +1095,222 @@ export function useAudioPlayer() {
     if (track?.gainNode) {
       track.gainNode.gain.value = newVolume;
       track.volume = newVolume;
+      updateTrack(trackId, { volume: newVolume });
+    }
+  };
+
+  const handleEqChange = (trackId: string, band: EqBand, value: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    if (track.eqNodes) {
+      engine.setEqBand(track.eqNodes, band, value, track.eqKills[band]);
+    }
+    updateTrack(trackId, { eq: { ...track.eq, [band]: value } });
+  };
+
+  const handleEqKillToggle = (trackId: string, band: EqBand) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    const killed = !track.eqKills[band];
+    if (track.eqNodes) {
+      engine.setEqBand(track.eqNodes, band, track.eq[band], killed);
+    }
+    updateTrack(trackId, { eqKills: { ...track.eqKills, [band]: killed } });
+  };
+
+  // Apply the crossfader to a single track's channel strip
+  const applyCrossfader = (track: Track, state: CrossfaderState, side: CrossfaderSide = track.crossfaderSide) => {
+    if (track.crossfadeNode) {
+      engine.setCrossfadeGain(track.crossfadeNode, getCrossfaderGain(state.position, side, state.curve));
+    }
+  };
+
+  const handleCrossfaderChange = (newValue: number | number[]) => {
+    const newState = { ...crossfader, position: newValue as number };
+    tracks.forEach(track => applyCrossfader(track, newState));
+    setCrossfader(newState);
+  };
+
+  const handleCrossfaderCurveChange = (curve: CrossfaderCurve) => {
+    const newState = { ...crossfader, curve };
+    tracks.forEach(track => applyCrossfader(track, newState));
+    setCrossfader(newState);
+  };
+
+  const handleCrossfaderAssign = (trackId: string, side: CrossfaderSide) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    applyCrossfader(track, crossfader, side);
+    updateTrack(trackId, { crossfaderSide: side });
+  };
+
+  // Helper function to configure the source node's buffer-time loop from the track's loop
+  const applyLoop = (track: Track) => {
+    if (!track.sourceNode) return;
+    if (track.loop) {
+      track.sourceNode.loopStart = track.loop.start;
+      track.sourceNode.loopEnd = track.loop.end;
+    }
+    track.sourceNode.loop = track.loop !== null;
+  };
+
+  // Helper function to engage, change or clear a track's loop
+  const setTrackLoop = (track: Track, loop: TrackLoop | null, updates: Partial<Track> = {}) => {
+    reanchorPlaybackPosition(track);
+    track.loop = loop;
+    applyLoop(track);
+    // The loop may now stop short of the next tempo marker, or no longer do so
+    if (track.isPlaying) adjustPlaybackRate(track, track.phaseCorrection);
+    updateTrack(track.id, {
+      ...updates,
+      loop,
+      adjustedStartTime: track.adjustedStartTime,
+      startAudioContextTime: track.startAudioContextTime
+    });
+  };
+
+  const handleLoopAction = (trackId: string, action: LoopAction) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track || track.beats.length < 2) return;
+
+    const position = track.isPlaying ? getPlaybackPosition(track) : track.selectedStartTime;
+    const minBeats = LOOP_SIZES[0];
+    const maxBeats = LOOP_SIZES[LOOP_SIZES.length - 1];
+
+    // Build a loop of the given length starting at a grid position, clamped to the track
+    const createLoop = (startBeat: number, beats: number): TrackLoop => ({
+      start: Math.max(0, getTimeAtBeat(track.beats, startBeat)),
+      end: Math.min(track.duration, getTimeAtBeat(track.beats, startBeat + beats))
+    });
+
+    switch (action.type) {
+      case 'auto': {
+        if (track.loop && track.loopBeats === action.beats) {
+          setTrackLoop(track, null);
+          return;
+        }
+        // Start on the grid point at or before the play position, or nearest the boundary when quantized;
+        // sub-beat loops snap to their own length
+        const resolution = Math.min(1, action.beats);
+        runQuantized(track, 'loop', (current, time) => {
+          const startBeat = time === undefined
+            ? Math.floor(getBeatPosition(current.beats, position) / resolution) * resolution
+            : Math.round(getBeatPosition(current.beats, getPlaybackPosition(current, time)) / resolution) * resolution;
+          setTrackLoop(current, createLoop(startBeat, action.beats), { loopBeats: action.beats, loopInTime: null });
+        });
+        return;
+      }
+      case 'in':
+        updateTrack(trackId, { loopInTime: snapToGrid(track.beats, position) });
+        return;
+      case 'out': {
+        const loopIn = track.loopInTime ?? track.loop?.start;
+        if (loopIn === undefined) return;
+        const startBeat = Math.round(getBeatPosition(track.beats, loopIn));
+        runQuantized(track, 'loop', (current, time) => {
+          const loopOut = time === undefined ? position : getPlaybackPosition(current, time);
+          const beats = Math.max(1, Math.round(getBeatPosition(current.beats, loopOut)) - startBeat);
+          setTrackLoop(current, createLoop(startBeat, beats), { loopBeats: beats, loopInTime: null });
+        });
+        return;
+      }
+      case 'halve':
+      case 'double': {
+        if (!track.loop) {
+          // Without an active loop, just change the next auto-loop length
+          const beats = action.type === 'halve' ? track.loopBeats / 2 : track.loopBeats * 2;
+          updateTrack(trackId, { loopBeats: Math.min(maxBeats, Math.max(minBeats, beats)) });
+          return;
+        }
+        const startBeat = getBeatPosition(track.beats, track.loop.start);
+        const currentBeats = getBeatPosition(track.beats, track.loop.end) - startBeat;
+        const beats = Math.min(maxBeats, Math.max(minBeats, action.type === 'halve' ? currentBeats / 2 : currentBeats * 2));
+        setTrackLoop(track, createLoop(startBeat, beats), { loopBeats: beats });
+        return;
+      }
+      case 'move': {
+        if (!track.loop) return;
+        const startBeat = getBeatPosition(track.beats, track.loop.start);
+        const beats = getBeatPosition(track.beats, track.loop.end) - startBeat;
+        const loop = createLoop(startBeat + action.direction * beats, beats);
+        if (loop.start >= loop.end) return;
+        setTrackLoop(track, loop);
+        return;
+      }
+      case 'jump':
+        // Jump whole grid steps so a playing deck keeps its phase; a stopped deck just moves its start point
+        runQuantized(track, 'jump', (current, time) => {
+          const from = current.isPlaying ? getPlaybackPosition(current, time) : current.selectedStartTime;
+          const beat = getBeatPosition(current.beats, from) + action.direction * current.loopBeats;
+          const to = Math.min(current.duration, Math.max(0, getTimeAtBeat(current.beats, beat)));
+          if (current.isPlaying) {
+            playFrom(current, to, time ?? current.audioContext.currentTime);
+          } else {
+            updateTrack(current.id, { selectedStartTime: to });
+          }
+        });
+        return;
+      case 'exit':
+        setTrackLoop(track, null, { loopInTime: null });
+        return;
     }
   };
 
+  const handleTempoMultiplierChange = (trackId: string, multiplier: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    track.tempoMultiplier = multiplier;
+    adjustPlaybackRate(track, 1);
+    updateTrack(trackId, { tempoMultiplier: multiplier });
+  };
+
+  const handleAutoSyncToggle = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+    updateTrack(trackId, { autoSync: !track.autoSync });
+  };
+
+  const handleKeyLockToggle = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    // The stretch node glides to the new pitch shift, so this is safe while playing
+    track.keyLock = !track.keyLock;
+    adjustPlaybackRate(track, 1);
+    updateTrack(trackId, { keyLock: track.keyLock });
+  };
+
+  const handleKeyShiftChange = (trackId: string, semitones: number) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    track.keyShift = Math.min(12, Math.max(-12, semitones));
+    adjustPlaybackRate(track, 1);
+    updateTrack(trackId, { keyShift: track.keyShift });
+  };
+
+  // Transpose a deck to the closest key that mixes harmonically with another deck
+  const handleKeyMatch = (trackId: string, targetTrackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    const targetTrack = tracks.find(t => t.id === targetTrackId);
+    const targetKey = targetTrack ? getTrackKey(targetTrack) : null;
+    if (!track?.metadata.key || !targetKey) return;
+
+    // In vinyl mode the rate already shifts the pitch, so only transpose by the remainder
+    const rateShift = getTrackPitchShift(track) - track.keyShift;
+    handleKeyShiftChange(trackId, findKeyMatchShift(track.metadata.key, targetKey) - rateShift);
+  };
+
   const handleTempoChange = (newValue: number | number[]) => {
     const newTempo = newValue as number;
-    if (metronomeRef.current) {
-      metronomeRef.current.setTempo(newTempo);
-    }
+    // Anchor the decks on the old tempo curve, which may be mid-ramp, before replacing it
+    tracks.forEach(track => reanchorPlaybackPosition(track));
+    metronome.setTempo(newTempo);
+    setTempo(newTempo);
 
     // Update track playback rates
     tracks.forEach(track => {
@@ -294,13 +1321,115 @@ export function useAudioPlayer() {
     });
   };
 
+  // Glide the metronome to a new tempo; every deck's rate follows the same curve
+  const handleTempoRamp = (targetTempo: number, bars: number, curve: TempoRampCurve) => {
+    try {
+      tracks.forEach(track => reanchorPlaybackPosition(track));
+      metronome.rampTempo(targetTempo, bars, curve);
+      tracks.forEach(track => {
+        if (track.sourceNode) {
+          adjustPlaybackRate(track, 1);
+        }
+      });
+      setTempo(targetTempo);
+    } catch (error) {
+      console.error('Error starting tempo ramp:', error);
+    }
+  };
+
+  // Match the metronome to a deck's analysed tempo
+  const handleTempoFromTrack = (trackId: string) => {
+    const track = tracks.find(t => t.id === trackId);
+    if (!track) return;
+
+    try {
+      handleTempoChange(track.originalTempo * track.tempoMultiplier);
+    } catch (error) {
+      console.error('Error setting tempo from track:', error);
+    }
+  };
+
+  const handleRecordToggle = async () => {
+    if (recorder.isRecording()) {
+      const recording = await recorder.stop();
+      setIsRecording(false);
+      setRecordedMix({ ...recording, tracklist: tracklistRef.current });
+      return;
+    }
+
+    try {
+      await engine.resume();
+      await recorder.initialize();
+      tracklistRef.current = [];
+      audibleTrackIdsRef.current = new Set();
+      recorder.start();
+      setRecordedMix(null);
+      setIsRecording(true);
+    } catch (err) {
+      console.error('Failed to start recording:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start recording');
+    }
+  };
+
+  const handleClickChange = (updates: Partial<ClickSettings>) => {
+    metronome.setClick(updates);
+    setClick(metronome.getClick());
+  };
+
+  const handleMeterChange = (newBeatsPerBar: number) => {
+    try {
+      metronome.setBeatsPerBar(newBeatsPerBar);
+      setBeatsPerBar(newBeatsPerBar);
+    } catch (error) {
+      console.error('Error changing meter:', error);
+    }
+  };
+
   return {
     tracks,
     handleFileUpload,
+    handleLoadFile,
+    handleEjectTrack,
+    handleReplaceTrack,
+    handleRestoreSession,
+    handleDismissSession,
+    handleCancelAnalysis,
     handlePlayPause,
+    handleCancelArmedAction,
+    handleQuantizeModeChange,
+    quantizeMode,
+    handleWaveformZoomChange,
+    waveformBeats,
+    handleSeek,
     handleVolumeChange,
+    handleEqChange,
+    handleEqKillToggle,
+    handleCrossfaderChange,
+    handleCrossfaderCurveChange,
+    handleCrossfaderAssign,
+    handleLoopAction,
+    handleHotCueAction,
+    handleQuantizeToggle,
+    handleGridEdit,
+    handleKeyLockToggle,
+    handleAutoSyncToggle,
+    handleTempoMultiplierChange,
+    handleKeyShiftChange,
+    handleKeyMatch,
     handleTempoChange,
-    metronome: metronomeRef.current,
+    handleTempoFromTrack,
+    handleTempoRamp,
+    handleMeterChange,
+    beatsPerBar,
+    handleClickChange,
+    click,
+    handleRecordToggle,
+    metronome,
+    recorder,
+    isRecording,
+    recordedMix,
+    crossfader,
+    pendingSession,
     error
   };
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import type { Track, TrackMetadata } from './useAudioPlayer';
+import { LibraryScanRequest, isAudioFile, scanLibraryFiles } from '../utils/libraryScan';
+import { MusicalKey } from '../utils/musicalKey';
+import { StoredTrackData, loadLibrary, loadTrackData, saveTrackData } from '../utils/trackStorage';
+
+export type LibraryStatus = 'reading' | 'unanalysed' | 'analysing' | 'analysed' | 'error';
+
+export interface LibraryEntry {
+  id: string; // The file key once the file has been read, a temporary id before
+  file: File | null; // Null for a file imported in an earlier session and never loaded onto a deck
+  fileName: string;
+  fileKey: string | null;
+  title: string;
+  artist: string;
+  bpm: number | null; // The analysed tempo, else the tagged one; null when neither is known
+  key: MusicalKey | null;
+  duration: number | null; // Seconds
+  status: LibraryStatus;
+}
+
+// Build an entry from a file's library record
+function createEntry(fileKey: string, file: File | null, metadata: TrackMetadata, data: Partial<StoredTrackData>): LibraryEntry {
+  const fileName = file?.name ?? data.fileName ?? '';
+  return {
+    id: fileKey,
+    file,
+    fileName,
+    fileKey,
+    title: metadata.title || fileName,
+    artist: metadata.artist ?? '', // Entries saved before artists were read have none
+    bpm: data.analysis?.bpm ?? (metadata.bpm || null),
+    key: metadata.key,
+    duration: metadata.duration ?? null,
+    status: data.analysis ? 'analysed' : 'unanalysed'
+  };
+}
+
+// Update an entry from a deck playing its file. The deck knows more than the library: its analysis
+// may be running or have just finished, and its key may have been estimated.
+function applyDeck(entry: LibraryEntry, track: Track): LibraryEntry {
+  const analysed = track.beats.length > 0;
+  return {
+    ...entry,
+    bpm: analysed ? track.originalTempo : entry.bpm,
+    key: track.metadata.key ?? entry.key,
+    duration: entry.duration ?? track.duration,
+    status: track.analysisProgress ? 'analysing' : analysed ? 'analysed' : entry.status
+  };
+}
+
+export function useLibrary(tracks: Track[]) {
+  const [entries, setEntries] = useState<LibraryEntry[]>([]);
+
+  // List what's already in the library
+  useEffect(() => {
+    loadLibrary().then(records => {
+      const stored = Object.entries(records).flatMap(([fileKey, data]) =>
+        data.metadata ? [createEntry(fileKey, data.file ?? null, data.metadata, data)] : []
+      );
+      // Files imported while the library was loading are already listed
+      setEntries(prevEntries => [
+        ...stored.filter(entry => !prevEntries.some(prevEntry => prevEntry.fileKey === entry.fileKey)),
+        ...prevEntries
+      ]);
+    });
+  }, []);
+
+  // Helper function to update a library entry
+  const updateEntry = (id: string, updates: Partial<LibraryEntry>) => {
+    setEntries(prevEntries =>
+      prevEntries.map(entry =>
+        entry.id === id
+          ? { ...entry, ...updates }
+          : entry
+      )
+    );
+  };
+
+  // Add files to the library. They are listed straight away and filled in as the worker reads them.
+  const handleLibraryImport = async (files: File[]) => {
+    const requests: LibraryScanRequest[] = files.filter(isAudioFile).map(file => ({ id: crypto.randomUUID(), file }));
+    setEntries(prevEntries => [
+      ...prevEntries,
+      ...requests.map(({ id, file }): LibraryEntry => ({
+        id,
+        file,
+        fileName: file.name,
+        fileKey: null,
+        title: file.name,
+        artist: '',
+        bpm: null,
+        key: null,
+        duration: null,
+        status: 'reading'
+      }))
+    ]);
+
+    await scanLibraryFiles(requests, async (message) => {
+      if (message.type === 'error') {
+        console.error('Error reading library file:', message.message);
+        updateEntry(message.id, { status: 'error' });
+        return;
+      }
+
+      const file = requests.find(request => request.id === message.id)!.file;
+      const storedData = await loadTrackData(message.fileKey, file);
+      // Keep what the library already knows, such as an estimated key, filling in newly read fields.
+      // Only the name is saved, not the file: a whole library of audio would soon fill the browser's quota.
+      const metadata = { ...message.metadata, ...storedData.metadata };
+      saveTrackData(message.fileKey, { fileName: file.name, metadata });
+
+      const entry = createEntry(message.fileKey, file, metadata, storedData);
+      setEntries(prevEntries =>
+        prevEntries.some(prevEntry => prevEntry.fileKey === message.fileKey)
+          // Already in the library; the imported file makes it loadable again if it wasn't
+          ? prevEntries
+            .filter(prevEntry => prevEntry.id !== message.id)
+            .map(prevEntry => prevEntry.fileKey === message.fileKey ? { ...prevEntry, file: prevEntry.file ?? file } : prevEntry)
+          : prevEntries.map(prevEntry => prevEntry.id === message.id ? entry : prevEntry)
+      );
+    });
+  };
+
+  // Merge in what the decks know, including decks loaded straight from a file
+  const libraryEntries = [
+    ...entries.map(entry => {
+      const track = tracks.find(t => t.fileKey === entry.fileKey);
+      return track ? applyDeck(entry, track) : entry;
+    }),
+    ...tracks
+      .filter((track, index) =>
+        !entries.some(entry => entry.fileKey === track.fileKey) &&
+        tracks.findIndex(t => t.fileKey === track.fileKey) === index
+      )
+      .map(track => applyDeck(createEntry(track.fileKey, track.file, track.metadata, {}), track))
+  ];
+
+  return {
+    libraryEntries,
+    handleLibraryImport
+  };
+}
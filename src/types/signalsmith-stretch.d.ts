@@ -5,12 +5,21 @@ declare module 'signalsmith-stretch' {
     rate: number;
   }
 
+  // Changes take effect at `output` (context time), or straight away when it is left out
+  interface ScheduleOptions {
+    output?: number;
+    input?: number; // Position in the source, in seconds
+    active?: boolean;
+    rate?: number;
+    semitones?: number;
+  }
+
   interface StretchNode extends AudioNode {
     inputTime: number;
     setState(options: { sample: { speed: number } }): void;
     setUpdateInterval(seconds: number, callback?: (time: number) => void): void;
     setTimeMap(segments: TimeMapSegment[]): void;
-    schedule(options: { rate: number; semitones: number }): void;
+    schedule(options: ScheduleOptions): void;
     start(): void;
     stop(): void;
   }
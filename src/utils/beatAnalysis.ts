@@ -0,0 +1,507 @@
+import aubio from 'aubiojs';
+
+/**
+ * The beat analysis stages that run on already-filtered audio data. These don't touch
+ * any Web Audio or DOM API, so they can run in the beat detection worker.
+ */
+
+export interface BeatDetectionResult {
+  beatTimes: number[];
+  phrases: { startTime: number; endTime: number }[];
+  bpm: number;
+  downbeatOffset: number; // Index of the first beat that starts a bar, less than beatsPerBar
+  beatsPerBar: number; // Detected meter, 3 or 4
+  tempoMarkers: TempoMarker[]; // Empty for a constant-tempo grid
+}
+
+/**
+ * Start of a constant-tempo segment of a dynamic beat grid. The segment lasts until the next marker.
+ */
+export interface TempoMarker {
+  time: number; // Milliseconds, always on a beat
+  bpm: number;
+}
+
+export type AnalysisStage = 'filtering' | 'tempo' | 'grid' | 'downbeat' | 'phrases';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  progress: number; // 0-1 within the stage
+}
+
+export type ProgressCallback = (progress: AnalysisProgress) => void;
+
+interface DetectedBeat {
+  time: number;
+  confidence: number;
+}
+
+async function detectRawBeats(
+  data: Float32Array,
+  sampleRate: number,
+  onProgress: ProgressCallback
+): Promise<{ detectedBeats: DetectedBeat[]; bpm: number }> {
+  const { Tempo } = await aubio();
+
+  const frameSize = 1024;
+  const hopSize   = 64;
+  const tempo = new Tempo(frameSize, hopSize, sampleRate);
+  const detectedBeats: DetectedBeat[] = [];
+
+  let totalFrames = 0;
+  const PROGRESS_INTERVAL = 64000; // Report progress every 1000 hops
+
+  for (let i = 0; i + hopSize <= data.length; i += hopSize) {
+    if (totalFrames % PROGRESS_INTERVAL === 0) {
+      onProgress({ stage: 'tempo', progress: i / data.length });
+    }
+
+    const frame = data.subarray(i, i + hopSize);
+    const timeSec = i / sampleRate;
+    const confidence = tempo.do(frame);
+    if (confidence > 0.0) {
+      detectedBeats.push({
+        time: timeSec * 1000,
+        confidence
+      });
+    }
+    totalFrames += hopSize;
+  }
+
+  // Log beat times in seconds
+  console.log('Beat times (seconds):', detectedBeats.map(beat => (beat.time / 1000).toFixed(3)));
+
+  return {
+    detectedBeats: detectedBeats,
+    bpm: tempo.getBpm()
+  };
+}
+
+function findOptimalGridOffset(
+  detectedBeats: DetectedBeat[],
+  adjustedBpm: number,
+  durationMs: number,
+  onProgress: ProgressCallback
+): { gridOffset: number; beatTimes: number[] } {
+  const beatInterval = (60000 / adjustedBpm);
+  const numBeats = Math.floor(durationMs / beatInterval);
+  const numTestPoints = 20;
+  let gridOffset = 0;
+  let bestScore = -Infinity;
+
+  const GRID_CHUNK_SIZE = 5;
+  for (let i = 0; i < numTestPoints; i += GRID_CHUNK_SIZE) {
+    onProgress({ stage: 'grid', progress: i / numTestPoints });
+
+    for (let j = i; j < Math.min(i + GRID_CHUNK_SIZE, numTestPoints); j++) {
+      const testOffset = (beatInterval * j) / numTestPoints;
+      let score = 0;
+
+      for (let beatIndex = 0; beatIndex < numBeats; beatIndex++) {
+        const gridTime = testOffset + (beatIndex * beatInterval);
+        const nearbyBeats = detectedBeats.filter(beat =>
+          Math.abs(beat.time - gridTime) < 100
+        );
+
+        for (const beat of nearbyBeats) {
+          const distance = Math.abs(beat.time - gridTime);
+          const distanceWeight = 1 - (distance / 100);
+          score += (beat.confidence > 0.01 ? 1.0 : 0.01) * distanceWeight;
+        }
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        gridOffset = testOffset;
+      }
+    }
+  }
+
+  const beatTimes: number[] = [];
+  for (let i = 0; i < numBeats; i++) {
+    const beatTime = Math.round(gridOffset + (i * beatInterval));
+    if (beatTime < durationMs) {
+      beatTimes.push(beatTime);
+    }
+  }
+
+  return { gridOffset, beatTimes };
+}
+
+/**
+ * Follow the detected beats from the start of a constant grid with a simple phase-locked loop,
+ * so the tracked beats drift along with the music's actual tempo.
+ * Each tracked beat is the matching detected beat where there is one, otherwise the loop's prediction.
+ */
+function trackBeats(
+  detectedBeats: DetectedBeat[],
+  firstBeat: number,
+  initialInterval: number,
+  durationMs: number
+): number[] {
+  const detectedTimes = detectedBeats.map(beat => beat.time);
+  const PHASE_GAIN = 0.5;      // How much of the timing error is corrected on each beat
+  const TEMPO_GAIN = 0.1;      // How much of the timing error is applied to the interval
+  const MAX_TEMPO_CHANGE = 0.2; // The interval may drift at most 20% from its starting value
+
+  // Find the detected beat closest to a time, or null if none is within the tolerance
+  const findNearest = (time: number, tolerance: number): number | null => {
+    let left = 0;
+    let right = detectedTimes.length - 1;
+    while (left < right) {
+      const mid = Math.floor((left + right) / 2);
+      if (detectedTimes[mid] < time) {
+        left = mid + 1;
+      } else {
+        right = mid;
+      }
+    }
+    let nearest: number | null = null;
+    for (const index of [left - 1, left]) {
+      const candidate = detectedTimes[index];
+      if (candidate === undefined || Math.abs(candidate - time) > tolerance) continue;
+      if (nearest === null || Math.abs(candidate - time) < Math.abs(nearest - time)) {
+        nearest = candidate;
+      }
+    }
+    return nearest;
+  };
+
+  const trackedBeats = [firstBeat];
+  let interval = initialInterval;
+  let lastBeat = firstBeat;
+
+  while (lastBeat + interval < durationMs) {
+    const predicted = lastBeat + interval;
+    const nearest = findNearest(predicted, interval * 0.15);
+    let beat = predicted;
+    if (nearest !== null) {
+      const error = nearest - predicted;
+      beat = predicted + PHASE_GAIN * error;
+      interval += TEMPO_GAIN * error;
+      interval = Math.min(initialInterval * (1 + MAX_TEMPO_CHANGE), Math.max(initialInterval * (1 - MAX_TEMPO_CHANGE), interval));
+    }
+    trackedBeats.push(nearest ?? beat);
+    lastBeat = beat;
+  }
+
+  return trackedBeats;
+}
+
+/**
+ * Split the tracked beats into segments of roughly constant tempo and rebuild the grid from them.
+ * @returns The piecewise grid and its tempo markers, or null if the tempo is constant throughout
+ */
+function fitTempoSegments(
+  trackedBeats: number[]
+): { beatTimes: number[]; tempoMarkers: TempoMarker[] } | null {
+  const WINDOW = 16;            // Beats used to estimate the local tempo
+  const CHANGE_TOLERANCE = 0.006; // A 0.6% tempo difference starts a new segment...
+  const MIN_SEGMENT_BEATS = 16;  // ...if it lasts at least this many beats
+  const MERGE_TOLERANCE = 0.005; // Segments within 0.5% are treated as one tempo
+
+  if (trackedBeats.length < WINDOW * 2) return null;
+
+  const localInterval = (index: number): number => {
+    const start = Math.max(0, Math.min(index - WINDOW / 2, trackedBeats.length - 1 - WINDOW));
+    return (trackedBeats[start + WINDOW] - trackedBeats[start]) / WINDOW;
+  };
+
+  // Find the beat indices where the tempo changes
+  const segmentStarts = [0];
+  let segmentInterval = localInterval(0);
+  let runStart = -1;
+  for (let i = 1; i < trackedBeats.length; i++) {
+    const interval = localInterval(i);
+    if (Math.abs(interval - segmentInterval) / segmentInterval > CHANGE_TOLERANCE) {
+      if (runStart < 0) runStart = i;
+      if (i - runStart + 1 >= MIN_SEGMENT_BEATS && runStart - segmentStarts[segmentStarts.length - 1] >= MIN_SEGMENT_BEATS) {
+        segmentStarts.push(runStart);
+        segmentInterval = localInterval(i);
+        runStart = -1;
+      }
+    } else {
+      runStart = -1;
+    }
+  }
+  if (segmentStarts.length === 1) return null;
+
+  // Least-squares line through a range of tracked beats, so its grid doesn't drift from them
+  const fitLine = (start: number, end: number) => {
+    const count = end - start;
+    const meanIndex = (count - 1) / 2;
+    let meanTime = 0;
+    for (let k = start; k < end; k++) meanTime += trackedBeats[k] / count;
+    let numerator = 0;
+    let denominator = 0;
+    for (let k = 0; k < count; k++) {
+      numerator += (k - meanIndex) * (trackedBeats[start + k] - meanTime);
+      denominator += (k - meanIndex) ** 2;
+    }
+    const interval = numerator / denominator;
+    const firstBeat = meanTime - meanIndex * interval;
+    let error = 0;
+    for (let k = 0; k < count; k++) error += (trackedBeats[start + k] - firstBeat - k * interval) ** 2;
+    return { start, end, interval, firstBeat, error };
+  };
+
+  // The local tempo window smears each change over several beats; move every boundary to where the fits are tightest
+  segmentStarts.push(trackedBeats.length);
+  for (let s = 1; s < segmentStarts.length - 1; s++) {
+    const from = Math.max(segmentStarts[s - 1] + MIN_SEGMENT_BEATS / 2, segmentStarts[s] - WINDOW);
+    const to = Math.min(segmentStarts[s + 1] - MIN_SEGMENT_BEATS / 2, segmentStarts[s] + WINDOW);
+    let bestError = Infinity;
+    for (let boundary = from; boundary <= to; boundary++) {
+      const error = fitLine(segmentStarts[s - 1], boundary).error + fitLine(boundary, segmentStarts[s + 1]).error;
+      if (error < bestError) {
+        bestError = error;
+        segmentStarts[s] = boundary;
+      }
+    }
+  }
+  const fits = segmentStarts.slice(0, -1).map((start, s) => fitLine(start, segmentStarts[s + 1]));
+
+  const intervals = fits.map(fit => fit.interval);
+  const minInterval = Math.min(...intervals);
+  const maxInterval = Math.max(...intervals);
+  if ((maxInterval - minInterval) / minInterval < MERGE_TOLERANCE) return null;
+
+  // Rebuild the grid segment by segment
+  const beatTimes: number[] = [];
+  const tempoMarkers: TempoMarker[] = [];
+  for (const { start, end, interval, firstBeat } of fits) {
+    tempoMarkers.push({ time: Math.round(firstBeat), bpm: 60000 / interval });
+    for (let k = 0; k < end - start; k++) {
+      beatTimes.push(Math.round(firstBeat + k * interval));
+    }
+  }
+
+  return { beatTimes, tempoMarkers };
+}
+
+// Expected relative accent of each beat in a bar, by beats per bar
+const ACCENT_PATTERNS: Record<number, number[]> = {
+  3: [1.0, 0.4, 0.4],      // strong, weak, weak
+  4: [1.0, 0.4, 0.7, 0.4]  // strong, weak, medium, weak
+};
+
+// Detection folds the tempo into this range first, then checks whether half of it fits better
+const MIN_FOLDED_BPM = 90;
+const MAX_FOLDED_BPM = 180;
+const MIN_HALF_TIME_BPM = 60;
+
+// Every other beat of the folded grid this much weaker than the rest means the folded tempo is double
+// the track's. Well below the weak beats of a 4/4 bar (see ACCENT_PATTERNS), so ordinary accents don't count.
+const HALF_TIME_ACCENT_RATIO = 0.35;
+
+// Onset strength around a time: the confidence of the detected beats within 100 ms, weighted by closeness
+function getOnsetStrength(detectedBeats: DetectedBeat[], time: number): number {
+  const nearby = detectedBeats.filter(b => Math.abs(b.time - time) < 100);
+  return nearby.reduce((sum, b) => sum + b.confidence * (1 - Math.abs(b.time - time) / 100), 0);
+}
+
+/**
+ * Choose between the folded tempo and half of it. At the folded tempo of a 60–90 BPM track, every
+ * other beat falls between the track's real beats, where there are few onsets; at the true tempo
+ * of a faster track, both sets of beats carry them. At half tempo, the grid keeps the strong beats.
+ */
+function chooseTempoClass(
+  detectedBeats: DetectedBeat[],
+  foldedBpm: number,
+  foldedBeatTimes: number[]
+): { bpm: number; beatTimes: number[] } {
+  const folded = { bpm: foldedBpm, beatTimes: foldedBeatTimes };
+  if (foldedBpm / 2 < MIN_HALF_TIME_BPM) return folded;
+
+  const strengths = [0, 0];
+  foldedBeatTimes.forEach((time, i) => {
+    strengths[i % 2] += getOnsetStrength(detectedBeats, time);
+  });
+  const strongParity = strengths[0] >= strengths[1] ? 0 : 1;
+  const strong = strengths[strongParity];
+  const weak = strengths[1 - strongParity];
+  if (strong === 0 || weak / strong >= HALF_TIME_ACCENT_RATIO) return folded;
+
+  return {
+    bpm: foldedBpm / 2,
+    beatTimes: foldedBeatTimes.filter((_, i) => i % 2 === strongParity)
+  };
+}
+
+/**
+ * Find the meter and downbeat offset whose accent pattern best fits the detected beats.
+ * Only 3 and 4 beats per bar are told apart; other meters have to be set by hand.
+ */
+function findBestMeter(
+    beatTimes: number[],
+    detectedBeats: DetectedBeat[]
+  ): { beatsPerBar: number; downbeatOffset: number } {
+    const scores: { beatsPerBar: number; offset: number; score: number }[] = [];
+
+    for (const [meter, expected] of Object.entries(ACCENT_PATTERNS)) {
+      const beatsPerBar = Number(meter);
+
+      // For each offset, evaluate based on bar accent patterns
+      for (let offset = 0; offset < beatsPerBar; offset++) {
+        let totalScore = 0;
+        let count = 0;
+
+        for (let i = offset; i + beatsPerBar - 1 < beatTimes.length; i += beatsPerBar) {
+          const strengths = expected.map((_, j) => getOnsetStrength(detectedBeats, beatTimes[i + j]));
+
+          const total = strengths.reduce((a, b) => a + b, 0);
+          if (total === 0) continue;
+
+          const norm = strengths.map(s => s / total);
+
+          let patternMatch = 0;
+          for (let j = 0; j < beatsPerBar; j++) {
+            patternMatch += 1 - Math.abs(norm[j] - expected[j]);
+          }
+
+          // Per beat, so bars of different lengths score on the same scale
+          totalScore += patternMatch / beatsPerBar;
+          count++;
+        }
+
+        const averageScore = count > 0 ? totalScore / count : 0;
+
+        // Add small biases toward offset = 0 and 4/4 (the common cases)
+        const bias = (offset === 0 ? 0.025 : 0) + (beatsPerBar === 4 ? 0.02 : 0);
+
+        scores.push({ beatsPerBar, offset, score: averageScore + bias });
+      }
+    }
+
+    scores.sort((a, b) => b.score - a.score);
+    return { beatsPerBar: scores[0].beatsPerBar, downbeatOffset: scores[0].offset };
+}
+
+function detectPhrases(
+  beatTimes: number[],
+  detectedBeats: DetectedBeat[],
+  bestOffset: number,
+  beatsPerBar: number,
+  onProgress: ProgressCallback
+): { startTime: number; endTime: number }[] {
+  const phrases: { startTime: number; endTime: number }[] = [];
+  const barsPerPhrase = 8;
+  const minBarsForPhrase = 4;
+  const barEnergies: number[] = [];
+  const BAR_CHUNK_SIZE = 10;
+
+  for (let i = bestOffset; i < beatTimes.length - beatsPerBar; i += beatsPerBar * BAR_CHUNK_SIZE) {
+    onProgress({ stage: 'phrases', progress: i / beatTimes.length });
+
+    for (let j = i; j < Math.min(i + beatsPerBar * BAR_CHUNK_SIZE, beatTimes.length - beatsPerBar); j += beatsPerBar) {
+      let barEnergy = 0;
+      for (let k = 0; k < beatsPerBar; k++) {
+        const beatTime = beatTimes[j + k];
+        const nearbyBeats = detectedBeats.filter(beat =>
+          Math.abs(beat.time - beatTime) < 100
+        );
+        barEnergy += nearbyBeats.reduce((sum, beat) => sum + beat.confidence, 0);
+      }
+      barEnergies.push(barEnergy);
+    }
+  }
+
+  const energyThreshold = Math.max(...barEnergies) * 0.6;
+  let phraseStartBar = 0;
+
+  for (let bar = 1; bar < barEnergies.length; bar++) {
+    const isSignificantChange =
+      Math.abs(barEnergies[bar] - barEnergies[bar - 1]) > energyThreshold ||
+      bar - phraseStartBar >= barsPerPhrase;
+
+    if (isSignificantChange && bar - phraseStartBar >= minBarsForPhrase) {
+      const startBeat = phraseStartBar * beatsPerBar + bestOffset;
+      const endBeat = bar * beatsPerBar + bestOffset - 1;
+
+      if (startBeat < beatTimes.length && endBeat < beatTimes.length) {
+        phrases.push({
+          startTime: beatTimes[startBeat],
+          endTime: beatTimes[endBeat]
+        });
+      }
+      phraseStartBar = bar;
+    }
+  }
+
+  const remainingBars = barEnergies.length - phraseStartBar;
+  if (remainingBars >= minBarsForPhrase) {
+    const startBeat = phraseStartBar * beatsPerBar + bestOffset;
+    const endBeat = Math.min(
+      beatTimes.length - 1,
+      (phraseStartBar + remainingBars) * beatsPerBar + bestOffset - 1
+    );
+
+    phrases.push({
+      startTime: beatTimes[startBeat],
+      endTime: beatTimes[endBeat]
+    });
+  }
+
+  return phrases;
+}
+
+export async function analyzeFilteredData(
+  filteredData: Float32Array,
+  sampleRate: number,
+  durationMs: number,
+  onProgress: ProgressCallback
+): Promise<BeatDetectionResult> {
+  // Step 2: Detect raw beats and get initial BPM
+  const { detectedBeats, bpm } = await detectRawBeats(filteredData, sampleRate, onProgress);
+  console.log('Detected BPM:', bpm);
+
+  // Step 3: Fold the BPM into the standard range
+  let foldedBpm = bpm;
+  if (foldedBpm < MIN_FOLDED_BPM) foldedBpm *= 2;
+  if (foldedBpm > MAX_FOLDED_BPM) foldedBpm /= 2;
+
+  // Step 4: Find optimal grid offset and generate beat times
+  const foldedGrid = findOptimalGridOffset(
+    detectedBeats,
+    foldedBpm,
+    durationMs,
+    onProgress
+  );
+
+  // Step 4a: Keep the folded tempo or halve it, by the onsets on alternate beats
+  const constantGrid = chooseTempoClass(detectedBeats, foldedBpm, foldedGrid.beatTimes);
+  const adjustedBpm = constantGrid.bpm;
+
+  // Step 4b: Follow tempo drift and changes; keep the constant grid if the tempo is steady
+  let beatTimes = constantGrid.beatTimes;
+  let tempoMarkers: TempoMarker[] = [];
+  if (beatTimes.length > 0) {
+    const trackedBeats = trackBeats(detectedBeats, beatTimes[0], 60000 / adjustedBpm, durationMs);
+    const dynamicGrid = fitTempoSegments(trackedBeats);
+    if (dynamicGrid) {
+      ({ beatTimes, tempoMarkers } = dynamicGrid);
+    }
+  }
+
+  // Step 5: Find the meter and best downbeat offset
+  onProgress({ stage: 'downbeat', progress: 0 });
+  const { beatsPerBar, downbeatOffset } = findBestMeter(beatTimes, detectedBeats);
+
+  // Step 6: Detect musical phrases
+  const phrases = detectPhrases(beatTimes, detectedBeats, downbeatOffset, beatsPerBar, onProgress);
+
+  return { beatTimes, phrases, bpm: adjustedBpm, downbeatOffset, beatsPerBar, tempoMarkers };
+}
+
+// Messages exchanged with the analysis worker; key detection shares the worker (see keyDetection)
+export interface BeatDetectionRequest {
+  type: 'beats';
+  filteredData: Float32Array;
+  sampleRate: number;
+  durationMs: number;
+}
+
+export type BeatDetectionMessage<Result = BeatDetectionResult> =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: Result }
+  | { type: 'error'; message: string };
@@ -1,20 +1,11 @@
-import aubio from 'aubiojs';
+import type { BeatDetectionMessage, BeatDetectionRequest, BeatDetectionResult, ProgressCallback } from './beatAnalysis';
+import type { KeyDetectionRequest } from './keyDetection';
 
-export interface BeatDetectionResult {
-  beatTimes: number[];
-  phrases: { startTime: number; endTime: number }[];
-  bpm: number;
-  downbeatOffset: number;
-}
-
-interface DetectedBeat {
-  time: number;
-  confidence: number;
-}
+export type { AnalysisProgress, AnalysisStage, BeatDetectionResult, TempoMarker } from './beatAnalysis';
 
-interface OffsetScore {
-  offset: number;
-  score: number;
+export interface DetectBeatsOptions {
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal; // Aborting terminates the worker and rejects with an AbortError
 }
 
 async function createFilteredBuffer(buffer: AudioBuffer): Promise<Float32Array> {
@@ -56,245 +47,69 @@ async function createFilteredBuffer(buffer: AudioBuffer): Promise<Float32Array>
   return renderedBuffer.getChannelData(0);
 }
 
-async function detectRawBeats(
-  data: Float32Array,
-  sampleRate: number
-): Promise<{ detectedBeats: DetectedBeat[]; bpm: number }> {
-  const { Tempo } = await aubio();
-
-  const frameSize = 1024;
-  const hopSize   = 64;
-  const tempo = new Tempo(frameSize, hopSize, sampleRate);
-  const detectedBeats: DetectedBeat[] = [];
-
-  let totalFrames = 0;
-  const YIELD_INTERVAL = 1000; // Yield every 1000 frames
-
-  for (let i = 0; i + hopSize <= data.length; i += hopSize) {
-    if (totalFrames % YIELD_INTERVAL === 0) {
-      await new Promise(resolve => setTimeout(resolve, 0)); // Yield to main thread
-    }
-
-    const frame = data.subarray(i, i + hopSize);
-    let timeSec = i / sampleRate;
-    let confidence = tempo.do(frame);
-    if (confidence > 0.0) {
-      detectedBeats.push({
-        time: timeSec * 1000,
-        confidence
-      });
-    }
-    totalFrames += hopSize;
-  }
-
-  // Log beat times in seconds
-  console.log('Beat times (seconds):', detectedBeats.map(beat => (beat.time / 1000).toFixed(3)));
-
-  return {
-    detectedBeats: detectedBeats,
-    bpm: tempo.getBpm()
-  };
-}
-
-async function findOptimalGridOffset(
-  detectedBeats: DetectedBeat[],
-  adjustedBpm: number,
-  durationMs: number
-): Promise<{ gridOffset: number; beatTimes: number[] }> {
-  const beatInterval = (60000 / adjustedBpm);
-  const numBeats = Math.floor(durationMs / beatInterval);
-  const numTestPoints = 20;
-  let gridOffset = 0;
-  let bestScore = -Infinity;
-
-  const GRID_CHUNK_SIZE = 5;
-  for (let i = 0; i < numTestPoints; i += GRID_CHUNK_SIZE) {
-    await new Promise(resolve => setTimeout(resolve, 0));
-    
-    for (let j = i; j < Math.min(i + GRID_CHUNK_SIZE, numTestPoints); j++) {
-      const testOffset = (beatInterval * j) / numTestPoints;
-      let score = 0;
-
-      for (let beatIndex = 0; beatIndex < numBeats; beatIndex++) {
-        const gridTime = testOffset + (beatIndex * beatInterval);
-        const nearbyBeats = detectedBeats.filter(beat =>
-          Math.abs(beat.time - gridTime) < 100
-        );
-
-        for (const beat of nearbyBeats) {
-          const distance = Math.abs(beat.time - gridTime);
-          const distanceWeight = 1 - (distance / 100);
-          score += (beat.confidence > 0.01 ? 1.0 : 0.01) * distanceWeight;
-        }
-      }
-
-      if (score > bestScore) {
-        bestScore = score;
-        gridOffset = testOffset;
-      }
-    }
-  }
-
-  const beatTimes: number[] = [];
-  for (let i = 0; i < numBeats; i++) {
-    const beatTime = Math.round(gridOffset + (i * beatInterval));
-    if (beatTime < durationMs) {
-      beatTimes.push(beatTime);
-    }
-  }
-
-  return { gridOffset, beatTimes };
-}
-
-async function findBestDownbeatOffset(
-    beatTimes: number[],
-    detectedBeats: DetectedBeat[]
-  ): Promise<number> {
-    const offsets = [0, 1, 2, 3];
-    const scores: { offset: number; score: number }[] = [];
-    const beatsPerBar = 4;
-
-    // Helper to compute beat strengths
-    const getStrength = (time: number): number => {
-      const nearby = detectedBeats.filter(b => Math.abs(b.time - time) < 100);
-      return nearby.reduce((sum, b) => sum + b.confidence * (1 - Math.abs(b.time - time) / 100), 0);
+/**
+ * Run one analysis request in a worker of its own, off the main thread.
+ * The request's sample data is transferred to the worker, so it can't be used afterwards.
+ */
+export function runAnalysisWorker<Result>(
+  request: BeatDetectionRequest | KeyDetectionRequest,
+  transfer: Transferable[],
+  { onProgress, signal }: DetectBeatsOptions
+): Promise<Result> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/beatDetection.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
     };
-
-    // For each offset (0–3), evaluate based on bar accent patterns
-    for (const offset of offsets) {
-      let totalScore = 0;
-      let count = 0;
-
-      for (let i = offset; i + 3 < beatTimes.length; i += beatsPerBar) {
-        const strengths = [
-          getStrength(beatTimes[i]),     // beat 1
-          getStrength(beatTimes[i + 1]), // beat 2
-          getStrength(beatTimes[i + 2]), // beat 3
-          getStrength(beatTimes[i + 3])  // beat 4
-        ];
-
-        const total = strengths.reduce((a, b) => a + b, 0);
-        if (total === 0) continue;
-
-        const norm = strengths.map(s => s / total);
-
-        // Expect pattern: strong (1), weak (2), medium (3), weak (4)
-        const expected = [1.0, 0.4, 0.7, 0.4];
-
-        let patternMatch = 0;
-        for (let j = 0; j < 4; j++) {
-          patternMatch += 1 - Math.abs(norm[j] - expected[j]);
-        }
-
-        totalScore += patternMatch;
-        count++;
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Analysis was cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<BeatDetectionMessage<Result>>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
       }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
 
-      const averageScore = count > 0 ? totalScore / count : 0;
-
-      // Add small bias toward offset = 0 (common case)
-      const bias = offset === 0 ? 0.1 : 0;
-
-      scores.push({ offset, score: averageScore + bias });
-    }
-
-    scores.sort((a, b) => b.score - a.score);
-    return scores[0].offset;
+    // Transfer the samples rather than copying them
+    worker.postMessage(request, transfer);
+  });
 }
 
-async function detectPhrases(
-  beatTimes: number[],
-  detectedBeats: DetectedBeat[],
-  bestOffset: number
-): Promise<{ startTime: number; endTime: number }[]> {
-  const phrases: { startTime: number; endTime: number }[] = [];
-  const beatsPerBar = 4;
-  const barsPerPhrase = 8;
-  const minBarsForPhrase = 4;
-  const barEnergies: number[] = [];
-  const BAR_CHUNK_SIZE = 10;
+/**
+ * Detect beats, tempo, downbeat and phrases of a track.
+ * Only the filtering runs on the main thread (it needs an OfflineAudioContext);
+ * the remaining stages run in a worker.
+ */
+export async function detectBeats(buffer: AudioBuffer, options: DetectBeatsOptions = {}): Promise<BeatDetectionResult> {
+  const { onProgress, signal } = options;
 
-  for (let i = bestOffset; i < beatTimes.length - beatsPerBar; i += beatsPerBar * BAR_CHUNK_SIZE) {
-    await new Promise(resolve => setTimeout(resolve, 0));
-    
-    for (let j = i; j < Math.min(i + beatsPerBar * BAR_CHUNK_SIZE, beatTimes.length - beatsPerBar); j += beatsPerBar) {
-      let barEnergy = 0;
-      for (let k = 0; k < beatsPerBar; k++) {
-        const beatTime = beatTimes[j + k];
-        const nearbyBeats = detectedBeats.filter(beat =>
-          Math.abs(beat.time - beatTime) < 100
-        );
-        barEnergy += nearbyBeats.reduce((sum, beat) => sum + beat.confidence, 0);
-      }
-      barEnergies.push(barEnergy);
-    }
-  }
-
-  const energyThreshold = Math.max(...barEnergies) * 0.6;
-  let phraseStartBar = 0;
-
-  for (let bar = 1; bar < barEnergies.length; bar++) {
-    const isSignificantChange =
-      Math.abs(barEnergies[bar] - barEnergies[bar - 1]) > energyThreshold ||
-      bar - phraseStartBar >= barsPerPhrase;
-
-    if (isSignificantChange && bar - phraseStartBar >= minBarsForPhrase) {
-      const startBeat = phraseStartBar * beatsPerBar + bestOffset;
-      const endBeat = bar * beatsPerBar + bestOffset - 1;
-
-      if (startBeat < beatTimes.length && endBeat < beatTimes.length) {
-        phrases.push({
-          startTime: beatTimes[startBeat],
-          endTime: beatTimes[endBeat]
-        });
-      }
-      phraseStartBar = bar;
-    }
-  }
-
-  const remainingBars = barEnergies.length - phraseStartBar;
-  if (remainingBars >= minBarsForPhrase) {
-    const startBeat = phraseStartBar * beatsPerBar + bestOffset;
-    const endBeat = Math.min(
-      beatTimes.length - 1,
-      (phraseStartBar + remainingBars) * beatsPerBar + bestOffset - 1
-    );
-
-    phrases.push({
-      startTime: beatTimes[startBeat],
-      endTime: beatTimes[endBeat]
-    });
-  }
-
-  return phrases;
-}
-
-export async function detectBeats(buffer: AudioBuffer): Promise<BeatDetectionResult> {
   // Step 1: Create filtered buffer for analysis
+  onProgress?.({ stage: 'filtering', progress: 0 });
   const filteredData = await createFilteredBuffer(buffer);
+  if (signal?.aborted) {
+    throw new DOMException('Beat detection was cancelled', 'AbortError');
+  }
 
-  // Step 2: Detect raw beats and get initial BPM
-  const { detectedBeats, bpm } = await detectRawBeats(filteredData, buffer.sampleRate);
-  console.log('Detected BPM:', bpm);
-
-  // Step 3: Adjust BPM to standard range
-  let adjustedBpm = bpm;
-  if (adjustedBpm < 90) adjustedBpm *= 2;
-  if (adjustedBpm > 180) adjustedBpm /= 2;
-
-  // Step 4: Find optimal grid offset and generate beat times
-  const { beatTimes } = await findOptimalGridOffset(
-    detectedBeats,
-    adjustedBpm,
-    buffer.duration * 1000
+  // Steps 2-6: Tempo tracking, grid fitting, downbeat and phrase detection in the worker
+  return runAnalysisWorker<BeatDetectionResult>(
+    { type: 'beats', filteredData, sampleRate: buffer.sampleRate, durationMs: buffer.duration * 1000 },
+    [filteredData.buffer],
+    options
   );
-
-  // Step 5: Find best downbeat offset
-  const bestOffset = await findBestDownbeatOffset(beatTimes, detectedBeats);
-  console.log('Best downbeat offset:', bestOffset);
-
-  // Step 6: Detect musical phrases
-  const phrases = await detectPhrases(beatTimes, detectedBeats, bestOffset);
-
-  return { beatTimes, phrases, bpm: adjustedBpm, downbeatOffset: bestOffset };
-}
\ No newline at end of file
+}
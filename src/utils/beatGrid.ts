@@ -0,0 +1,95 @@
+import type { TempoMarker } from './beatDetection';
+
+/**
+ * Helpers for mapping between track time and positions on a beat grid.
+ *
+ * Beat times are in milliseconds (as produced by detectBeats), track times are in seconds.
+ * Beat positions are fractional beat indices, e.g. 4.5 is halfway between beats 4 and 5.
+ * Positions outside the grid are extrapolated from the first or last beat interval.
+ */
+
+/**
+ * Get the fractional beat position of a time on the grid.
+ * @param beats Beat times in milliseconds, ascending, at least two entries
+ * @param time Track time in seconds
+ */
+export function getBeatPosition(beats: number[], time: number): number {
+  const timeMs = time * 1000;
+  const last = beats.length - 1;
+
+  if (timeMs <= beats[0]) {
+    return (timeMs - beats[0]) / (beats[1] - beats[0]);
+  }
+  if (timeMs >= beats[last]) {
+    return last + (timeMs - beats[last]) / (beats[last] - beats[last - 1]);
+  }
+
+  // Binary search for the last beat at or before the time
+  let left = 0;
+  let right = last;
+  while (right - left > 1) {
+    const mid = Math.floor((left + right) / 2);
+    if (beats[mid] <= timeMs) {
+      left = mid;
+    } else {
+      right = mid;
+    }
+  }
+
+  return left + (timeMs - beats[left]) / (beats[right] - beats[left]);
+}
+
+/**
+ * Get the track time of a fractional beat position on the grid.
+ * @param beats Beat times in milliseconds, ascending, at least two entries
+ * @param position Fractional beat index
+ * @returns Track time in seconds
+ */
+export function getTimeAtBeat(beats: number[], position: number): number {
+  const last = beats.length - 1;
+  const index = Math.min(Math.max(Math.floor(position), 0), last - 1);
+  const fraction = position - index;
+
+  return (beats[index] + fraction * (beats[index + 1] - beats[index])) / 1000;
+}
+
+/**
+ * Snap a time to the nearest grid point.
+ * @param beats Beat times in milliseconds, ascending, at least two entries
+ * @param time Track time in seconds
+ * @param resolution Grid resolution in beats, e.g. 0.25 snaps to sixteenth notes
+ * @returns The snapped track time in seconds
+ */
+export function snapToGrid(beats: number[], time: number, resolution: number = 1): number {
+  const position = getBeatPosition(beats, time);
+  return getTimeAtBeat(beats, Math.round(position / resolution) * resolution);
+}
+
+/**
+ * Get how far a beat position is from the nearest whole beat of a reference, e.g. a deck against the metronome.
+ * @param position Fractional beat position
+ * @param reference Fractional beat position counted in the same beats
+ * @returns The offset in beats, between -0.5 and 0.5; positive when the position is ahead
+ */
+export function getPhaseOffset(position: number, reference: number): number {
+  const offset = position - reference;
+  return offset - Math.round(offset);
+}
+
+/**
+ * Get the tempo of the grid segment a time falls in.
+ * @param tempoMarkers Tempo changes ascending by time, empty for a constant grid
+ * @param time Track time in seconds
+ * @param defaultTempo Tempo of a constant grid
+ */
+export function getTempoAt(tempoMarkers: TempoMarker[], time: number, defaultTempo: number): number {
+  if (tempoMarkers.length === 0) return defaultTempo;
+
+  const timeMs = time * 1000;
+  let tempo = tempoMarkers[0].bpm;
+  for (const marker of tempoMarkers) {
+    if (marker.time > timeMs) break;
+    tempo = marker.bpm;
+  }
+  return tempo;
+}
@@ -0,0 +1,31 @@
+export type CrossfaderSide = 'A' | 'B' | 'thru';
+
+export type CrossfaderCurve = 'linear' | 'constantPower' | 'sharp';
+
+// Fraction of the fader travel over which the sharp curve fades a side out
+const SHARP_CUT_WIDTH = 0.04;
+
+/**
+ * Compute the gain a deck receives from the crossfader.
+ * @param position Crossfader position, 0 = fully side A, 1 = fully side B
+ * @param side The side the deck is assigned to; 'thru' bypasses the crossfader
+ * @param curve The crossfader curve
+ * @returns Linear gain in the range 0-1
+ */
+export function getCrossfaderGain(position: number, side: CrossfaderSide, curve: CrossfaderCurve): number {
+  if (side === 'thru') return 1;
+
+  // Distance of the fader from this side's end, 0 = at this side, 1 = at the opposite side
+  const x = Math.min(1, Math.max(0, side === 'A' ? position : 1 - position));
+
+  switch (curve) {
+    case 'linear':
+      return 1 - x;
+    case 'constantPower':
+      // Equal-power blend: no dip in perceived loudness at the centre
+      return Math.cos(x * Math.PI / 2);
+    case 'sharp':
+      // Both sides at full level until the fader is within the cut width of the far end
+      return Math.min(1, (1 - x) / SHARP_CUT_WIDTH);
+  }
+}
@@ -0,0 +1,173 @@
+import { DetectBeatsOptions, runAnalysisWorker } from './beatDetection';
+import { MusicalKey } from './musicalKey';
+
+export interface KeyDetectionResult {
+  key: MusicalKey;
+  confidence: number; // 0-1, correlation of the track's chroma with the best key profile
+}
+
+// Request to the analysis worker: the track downmixed and resampled to ANALYSIS_SAMPLE_RATE
+export interface KeyDetectionRequest {
+  type: 'key';
+  data: Float32Array;
+}
+
+// Krumhansl-Kessler key profiles, starting from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+const ANALYSIS_SAMPLE_RATE = 11025;
+const FRAME_SIZE = 4096;
+const MIN_FREQUENCY = 65;    // C2
+const MAX_FREQUENCY = 2100;  // C7
+
+async function createMonoBuffer(buffer: AudioBuffer): Promise<Float32Array> {
+  // Downmix and resample in one pass; key analysis doesn't need content above ~5 kHz
+  const length = Math.ceil(buffer.duration * ANALYSIS_SAMPLE_RATE);
+  const offlineCtx = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+  const source = offlineCtx.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offlineCtx.destination);
+  source.start(0);
+
+  const renderedBuffer = await offlineCtx.startRendering();
+  return renderedBuffer.getChannelData(0);
+}
+
+// In-place iterative radix-2 FFT; re and im must have a power-of-two length
+function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+function computeChroma(data: Float32Array): number[] {
+  const chroma = new Array(12).fill(0);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  // Precompute the Hann window and the pitch class of each FFT bin in range
+  const hannWindow = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    hannWindow[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+  }
+  const binPitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+    const frequency = bin * ANALYSIS_SAMPLE_RATE / FRAME_SIZE;
+    if (frequency >= MIN_FREQUENCY && frequency <= MAX_FREQUENCY) {
+      // A4 = 440 Hz is pitch class 9
+      binPitchClass[bin] = ((Math.round(12 * Math.log2(frequency / 440)) + 9) % 12 + 12) % 12;
+    }
+  }
+
+  for (let offset = 0; offset + FRAME_SIZE <= data.length; offset += FRAME_SIZE) {
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = data[offset + i] * hannWindow[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const frameChroma = new Array(12).fill(0);
+    let frameTotal = 0;
+    for (let bin = 1; bin < FRAME_SIZE / 2; bin++) {
+      const pitchClass = binPitchClass[bin];
+      if (pitchClass < 0) continue;
+      // Log compression keeps a loud bass note from swamping the harmony
+      const magnitude = Math.log1p(Math.sqrt(re[bin] * re[bin] + im[bin] * im[bin]));
+      frameChroma[pitchClass] += magnitude;
+      frameTotal += magnitude;
+    }
+
+    // Normalise each frame so quiet and loud passages weigh equally; skip silence
+    if (frameTotal > 1e-3) {
+      for (let pc = 0; pc < 12; pc++) {
+        chroma[pc] += frameChroma[pc] / frameTotal;
+      }
+    }
+  }
+
+  return chroma;
+}
+
+function correlation(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, v) => sum + v, 0) / a.length;
+  const meanB = b.reduce((sum, v) => sum + v, 0) / b.length;
+  let numerator = 0;
+  let denomA = 0;
+  let denomB = 0;
+  for (let i = 0; i < a.length; i++) {
+    numerator += (a[i] - meanA) * (b[i] - meanB);
+    denomA += (a[i] - meanA) ** 2;
+    denomB += (b[i] - meanB) ** 2;
+  }
+  const denominator = Math.sqrt(denomA * denomB);
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Estimate the key from downmixed samples at ANALYSIS_SAMPLE_RATE. Runs in the analysis worker.
+ */
+export function analyzeKeyData(data: Float32Array): KeyDetectionResult {
+  // Step 2: Accumulate a chroma vector over the whole track
+  const chroma = computeChroma(data);
+
+  // Step 3: Correlate against the major and minor profile of every tonic
+  let best: KeyDetectionResult = { key: { tonic: 0, mode: 'major' }, confidence: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    // Rotate the chroma so the candidate tonic comes first
+    const rotated = chroma.map((_, i) => chroma[(i + tonic) % 12]);
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]] as const) {
+      const score = correlation(rotated, profile);
+      if (score > best.confidence) {
+        best = { key: { tonic, mode }, confidence: score };
+      }
+    }
+  }
+
+  return { key: best.key, confidence: Math.max(0, best.confidence) };
+}
+
+/**
+ * Estimate the key of a track. Only the downmix runs on the main thread (it needs an
+ * OfflineAudioContext); the chroma analysis runs in the analysis worker.
+ */
+export async function detectKey(buffer: AudioBuffer, { signal }: Pick<DetectBeatsOptions, 'signal'> = {}): Promise<KeyDetectionResult> {
+  // Step 1: Downmix and resample for analysis
+  const data = await createMonoBuffer(buffer);
+  if (signal?.aborted) {
+    throw new DOMException('Key detection was cancelled', 'AbortError');
+  }
+
+  return runAnalysisWorker<KeyDetectionResult>({ type: 'key', data }, [data.buffer], { signal });
+}
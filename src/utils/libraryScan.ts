@@ -0,0 +1,104 @@
+import type { TrackMetadata } from '../hooks/useAudioPlayer';
+
+/**
+ * Importing files into the library: collecting audio files from a drop or file picker
+ * (including whole folders), then hashing them and reading their tags in a worker so a
+ * large import doesn't block playback.
+ */
+
+// Extensions accepted when the browser doesn't report an audio MIME type (common for files read from folders)
+const AUDIO_EXTENSIONS = /\.(mp3|wav|flac|ogg|oga|opus|m4a|aac|aif|aiff|webm)$/i;
+
+// Messages exchanged with the library scan worker
+export interface LibraryScanRequest {
+  id: string;
+  file: File;
+}
+
+export type LibraryScanMessage =
+  | { type: 'result'; id: string; fileKey: string; metadata: TrackMetadata }
+  | { type: 'error'; id: string; message: string };
+
+export function isAudioFile(file: File): boolean {
+  return file.type.startsWith('audio/') || AUDIO_EXTENSIONS.test(file.name);
+}
+
+// Read every file below a dropped file or folder entry
+async function readEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+  }
+  if (!entry.isDirectory) return [];
+
+  // A directory reader returns its entries in batches until it returns an empty one
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  const files = await Promise.all(children.map(readEntryFiles));
+  return files.flat();
+}
+
+/**
+ * Get the audio files of a drop, descending into dropped folders.
+ * Must be called during the drop event, before the data transfer's items expire.
+ */
+export function getDroppedAudioFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Browsers without entry support still list plain files
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files).filter(isAudioFile));
+  }
+  return Promise.all(entries.map(readEntryFiles)).then(files => files.flat().filter(isAudioFile));
+}
+
+/**
+ * Hash and read the tags of files one at a time in a worker.
+ * @param requests The files to scan, each with an id to match up its result
+ * @param onMessage Called with each file's result or error as soon as it's ready
+ */
+export function scanLibraryFiles(
+  requests: LibraryScanRequest[],
+  onMessage: (message: LibraryScanMessage) => void
+): Promise<void> {
+  return new Promise((resolve) => {
+    if (requests.length === 0) {
+      resolve();
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/libraryScan.worker.ts', import.meta.url), { type: 'module' });
+    let next = 0;
+
+    const finish = () => {
+      worker.terminate();
+      resolve();
+    };
+    const postNext = () => {
+      if (next === requests.length) {
+        finish();
+        return;
+      }
+      worker.postMessage(requests[next++]);
+    };
+
+    worker.onmessage = (event: MessageEvent<LibraryScanMessage>) => {
+      onMessage(event.data);
+      postNext();
+    };
+    worker.onerror = (event) => {
+      // Report everything not yet scanned as failed rather than leaving it waiting
+      const message = event.message || 'Library scan worker failed';
+      requests.slice(next - 1).forEach(({ id }) => onMessage({ type: 'error', id, message }));
+      finish();
+    };
+
+    postNext();
+  });
+}
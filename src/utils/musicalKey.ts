@@ -0,0 +1,131 @@
+export type KeyMode = 'major' | 'minor';
+
+export type KeyNotation = 'standard' | 'camelot' | 'openKey';
+
+export interface MusicalKey {
+  tonic: number; // Pitch class, 0 = C ... 11 = B
+  mode: KeyMode;
+}
+
+const PITCH_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+// Alternative spellings accepted when parsing key tags
+const PITCH_ALIASES: Record<string, number> = {
+  'C': 0, 'B#': 0, 'C#': 1, 'DB': 1, 'D': 2, 'D#': 3, 'EB': 3, 'E': 4, 'FB': 4,
+  'F': 5, 'E#': 5, 'F#': 6, 'GB': 6, 'G': 7, 'G#': 8, 'AB': 8, 'A': 9,
+  'A#': 10, 'BB': 10, 'B': 11, 'CB': 11
+};
+
+/**
+ * Get the Camelot wheel number (1-12) of a key. Relative major/minor keys share a number.
+ */
+function getCamelotNumber(key: MusicalKey): number {
+  // Minor keys sit at the same position as their relative major, three semitones up
+  const majorTonic = key.mode === 'major' ? key.tonic : (key.tonic + 3) % 12;
+  // C major is 8B, and each step round the wheel is a fifth (7 semitones)
+  return (((majorTonic * 7) % 12) + 7) % 12 + 1;
+}
+
+/**
+ * Format a key for display.
+ * @param key The key to format
+ * @param notation 'standard' (e.g. "A minor"), 'camelot' (e.g. "8A") or 'openKey' (e.g. "1m")
+ */
+export function formatKey(key: MusicalKey, notation: KeyNotation = 'standard'): string {
+  const camelot = getCamelotNumber(key);
+
+  switch (notation) {
+    case 'standard':
+      return `${PITCH_NAMES[key.tonic]} ${key.mode}`;
+    case 'camelot':
+      return `${camelot}${key.mode === 'major' ? 'B' : 'A'}`;
+    case 'openKey':
+      // Open Key starts its wheel at C major (1d) rather than Camelot's 8B
+      return `${((camelot + 4) % 12) + 1}${key.mode === 'major' ? 'd' : 'm'}`;
+  }
+}
+
+/**
+ * Parse a key tag in standard ("Am", "A minor", "F#", "Bbm"), Camelot ("8A") or Open Key ("1m") notation.
+ * @returns The parsed key, or null if the tag isn't recognised
+ */
+export function parseKey(value: string | undefined): MusicalKey | null {
+  if (!value) return null;
+  const text = value.trim();
+
+  const wheel = text.match(/^(\d{1,2})\s*([ABdm])$/i);
+  if (wheel) {
+    const number = parseInt(wheel[1], 10);
+    if (number < 1 || number > 12) return null;
+
+    const letter = wheel[2];
+    const isCamelot = letter.toUpperCase() === 'A' || letter.toUpperCase() === 'B';
+    const mode: KeyMode = isCamelot
+      ? (letter.toUpperCase() === 'B' ? 'major' : 'minor')
+      : (letter.toLowerCase() === 'd' ? 'major' : 'minor');
+    const camelot = isCamelot ? number : ((number + 6) % 12) + 1;
+
+    // Invert getCamelotNumber: position on the wheel back to the major tonic
+    const majorTonic = (((camelot - 8 + 12) % 12) * 7) % 12;
+    return { tonic: mode === 'major' ? majorTonic : (majorTonic + 9) % 12, mode };
+  }
+
+  const standard = text.match(/^([A-G])([#b♯♭]?)\s*(maj(?:or)?|min(?:or)?|m)?$/i);
+  if (standard) {
+    const accidental = standard[2].replace('♯', '#').replace('♭', 'b').toUpperCase();
+    const tonic = PITCH_ALIASES[standard[1].toUpperCase() + accidental];
+    if (tonic === undefined) return null;
+
+    const suffix = standard[3] ?? '';
+    const mode: KeyMode = suffix === 'm' || suffix.toLowerCase().startsWith('min') ? 'minor' : 'major';
+    return { tonic, mode };
+  }
+
+  return null;
+}
+
+/**
+ * Transpose a key by a number of semitones (rounded to the nearest semitone).
+ */
+export function transposeKey(key: MusicalKey, semitones: number): MusicalKey {
+  return { tonic: (((key.tonic + Math.round(semitones)) % 12) + 12) % 12, mode: key.mode };
+}
+
+/**
+ * Whether two keys mix harmonically: the same key, its relative major/minor,
+ * or a neighbour a fifth up or down (one step round the Camelot wheel).
+ */
+export function isHarmonicallyCompatible(a: MusicalKey, b: MusicalKey): boolean {
+  const camelotA = getCamelotNumber(a);
+  const camelotB = getCamelotNumber(b);
+
+  if (a.mode !== b.mode) {
+    return camelotA === camelotB;
+  }
+  const distance = (camelotA - camelotB + 12) % 12;
+  return distance === 0 || distance === 1 || distance === 11;
+}
+
+/**
+ * Find the smallest transposition that makes a key harmonically compatible with a target key.
+ * An exact key match is preferred over another compatible key at the same distance.
+ * @returns The shift in semitones, between -6 and +6
+ */
+export function findKeyMatchShift(key: MusicalKey, target: MusicalKey): number {
+  let bestShift = 0;
+  let bestCost = Infinity;
+
+  for (let shift = -6; shift <= 6; shift++) {
+    const shifted = transposeKey(key, shift);
+    if (!isHarmonicallyCompatible(shifted, target)) continue;
+
+    const isExact = shifted.tonic === target.tonic && shifted.mode === target.mode;
+    const cost = Math.abs(shift) + (isExact ? 0 : 0.5);
+    if (cost < bestCost) {
+      bestCost = cost;
+      bestShift = shift;
+    }
+  }
+
+  return bestShift;
+}
@@ -0,0 +1,29 @@
+// Taps further apart than this start a new measurement
+export const TAP_RESET_MS = 2000;
+
+// Only the most recent taps are averaged, so the estimate follows a drifting tempo
+export const MAX_TAPS = 8;
+
+// Intervals more than this fraction away from the median are treated as mis-taps
+const OUTLIER_TOLERANCE = 0.2;
+
+/**
+ * Estimate a tempo from tap times: the mean of the intervals between consecutive taps,
+ * ignoring intervals far from the median (a doubled or missed tap).
+ * @param tapTimes Tap times in milliseconds, ascending
+ * @returns The tempo in BPM, or null with fewer than two taps
+ */
+export function getTapTempo(tapTimes: number[]): number | null {
+  if (tapTimes.length < 2) return null;
+
+  const intervals = tapTimes.slice(1).map((time, i) => time - tapTimes[i]);
+  const sorted = [...intervals].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+
+  let inliers = intervals.filter(interval => Math.abs(interval - median) / median <= OUTLIER_TOLERANCE);
+  // Two very different intervals are both "outliers" from their mean; keep them rather than give up
+  if (inliers.length === 0) inliers = intervals;
+  const mean = inliers.reduce((sum, interval) => sum + interval, 0) / inliers.length;
+  return 60000 / mean;
+}
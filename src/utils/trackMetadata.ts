@@ -0,0 +1,33 @@
+import { parseBuffer } from 'music-metadata';
+import type { TrackMetadata } from '../hooks/useAudioPlayer';
+import { parseKey } from './musicalKey';
+
+/**
+ * Read a track's tags. Files without usable tags fall back to the file name, with no key or BPM.
+ * @param data The file's content
+ * @param file The file, for its name and MIME type
+ */
+export async function readTrackMetadata(data: Uint8Array, file: File): Promise<TrackMetadata> {
+  try {
+    const metadata = await parseBuffer(data, file.type, { duration: true, skipCovers: true });
+
+    return {
+      title: metadata.common.title || file.name,
+      artist: metadata.common.artist || '',
+      key: parseKey(metadata.common.key),
+      keyConfidence: null,
+      bpm: metadata.common.bpm || 0,
+      duration: metadata.format.duration ?? null
+    };
+  } catch (error) {
+    console.error('Error reading metadata:', error);
+    return {
+      title: file.name,
+      artist: '',
+      key: null,
+      keyConfidence: null,
+      bpm: 0,
+      duration: null
+    };
+  }
+}
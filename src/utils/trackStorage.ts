@@ -0,0 +1,204 @@
+import type { CrossfaderState, DeckSettings, TrackMetadata } from '../hooks/useAudioPlayer';
+import type { BeatDetectionResult } from './beatDetection';
+import type { WaveformPeaks } from './waveformPeaks';
+import type { ClickSettings } from '../Metronome';
+
+/**
+ * Local persistence in IndexedDB:
+ * - library: one entry per loaded file (the file itself, its metadata, beat analysis, waveform peaks,
+ *   grid edits and hot cues), keyed by a hash of the file's content so renamed or re-downloaded
+ *   copies of a track share the same cached analysis
+ * - session: the decks and mixer settings of the last session, so it can be restored after a reload
+ *
+ * Hot cues saved before the library existed live in localStorage, keyed by the file's name, size
+ * and modification time; they are moved into the library the first time their file is loaded.
+ */
+
+export interface HotCue {
+  time: number; // Track time in seconds
+  label: string;
+  color: string;
+}
+
+// Grid corrections made by the user; these take precedence over the analysis and are never overwritten by it
+export type GridEdits = Partial<Pick<BeatDetectionResult, 'beatTimes' | 'bpm' | 'downbeatOffset' | 'beatsPerBar' | 'tempoMarkers' | 'phrases'>>;
+
+export interface StoredTrackData {
+  file: File; // Only saved once the file is loaded onto a deck; library imports keep just its name
+  fileName: string;
+  metadata: TrackMetadata;
+  analysis: BeatDetectionResult;
+  peaks: WaveformPeaks;
+  gridEdits: GridEdits;
+  hotCues: (HotCue | null)[];
+}
+
+export interface StoredDeck {
+  fileKey: string;
+  settings: DeckSettings;
+}
+
+export interface StoredSession {
+  tempo: number;
+  beatsPerBar: number; // Metronome meter
+  click: ClickSettings;
+  crossfader: CrossfaderState;
+  decks: StoredDeck[];
+  savedAt: number;
+}
+
+const DB_NAME = 'mixdesk';
+const DB_VERSION = 2;
+const LIBRARY_STORE = 'library';
+const SESSION_STORE = 'session';
+const SESSION_KEY = 'last';
+const LEGACY_STORAGE_PREFIX = 'mixdesk:track:';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Version 1 keyed the library by file name, size and date; those entries can't be matched by hash
+        if (event.oldVersion === 1) {
+          db.deleteObjectStore(LIBRARY_STORE);
+          db.deleteObjectStore(SESSION_STORE);
+        }
+        db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+        db.createObjectStore(SESSION_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+async function getRecord<T>(storeName: string, key: string): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Get the library key of a file: the hex SHA-256 of its content.
+ * @param data The file's content; must be hashed before it is detached by decodeAudioData
+ */
+export async function hashFileContent(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Merge updates into a file's library entry in one transaction, rejecting if the write fails
+async function writeTrackData(fileKey: string, updates: Partial<StoredTrackData>): Promise<void> {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(LIBRARY_STORE, 'readwrite');
+    const store = transaction.objectStore(LIBRARY_STORE);
+    const request = store.get(fileKey);
+    request.onsuccess = () => {
+      store.put({ ...request.result, ...updates, id: fileKey });
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Move a file's hot cues from localStorage into its library entry. The localStorage entry is only
+// removed once the cues are safely in the library, or the library already has cues of its own.
+async function migrateLegacyHotCues(fileKey: string, file: File): Promise<void> {
+  const legacyKey = `${LEGACY_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+  const stored = localStorage.getItem(legacyKey);
+  if (!stored) return;
+
+  const { hotCues } = JSON.parse(stored) as Partial<StoredTrackData>;
+  const current = await getRecord<StoredTrackData>(LIBRARY_STORE, fileKey);
+  if (hotCues && !current?.hotCues?.some(cue => cue !== null)) {
+    await writeTrackData(fileKey, { hotCues });
+  }
+  localStorage.removeItem(legacyKey);
+}
+
+/**
+ * Load a file's library entry.
+ * @param fileKey The file's library key (see hashFileContent)
+ * @param file The file itself, when at hand, so hot cues from before the library can be moved into it
+ */
+export async function loadTrackData(fileKey: string, file?: File): Promise<Partial<StoredTrackData>> {
+  if (file) {
+    try {
+      await migrateLegacyHotCues(fileKey, file);
+    } catch (error) {
+      console.error('Error migrating stored hot cues:', error);
+    }
+  }
+
+  try {
+    return (await getRecord<StoredTrackData>(LIBRARY_STORE, fileKey)) ?? {};
+  } catch (error) {
+    console.error('Error loading stored track data:', error);
+    return {};
+  }
+}
+
+/**
+ * Merge updates into a file's library entry, creating it if needed.
+ * The read and write happen in one transaction so concurrent saves don't overwrite each other.
+ */
+export async function saveTrackData(fileKey: string, updates: Partial<StoredTrackData>): Promise<void> {
+  try {
+    await writeTrackData(fileKey, updates);
+  } catch (error) {
+    console.error('Error saving track data:', error);
+  }
+}
+
+/**
+ * Load every library entry, keyed by its file key.
+ */
+export async function loadLibrary(): Promise<Record<string, Partial<StoredTrackData>>> {
+  try {
+    const db = await openDatabase();
+    const records = await new Promise<(Partial<StoredTrackData> & { id: string })[]>((resolve, reject) => {
+      const request = db.transaction(LIBRARY_STORE, 'readonly').objectStore(LIBRARY_STORE).getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return Object.fromEntries(records.map(({ id, ...data }) => [id, data]));
+  } catch (error) {
+    console.error('Error loading library:', error);
+    return {};
+  }
+}
+
+export async function loadSession(): Promise<StoredSession | null> {
+  try {
+    return (await getRecord<StoredSession>(SESSION_STORE, SESSION_KEY)) ?? null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE, 'readwrite');
+      transaction.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('Error saving session:', error);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * 16-bit PCM WAV encoding for recordings. Samples are converted as they arrive,
+ * so a long recording is held at half the size of the Float32 data it came from.
+ */
+
+/**
+ * Interleave channels and convert them to 16-bit PCM.
+ * @param channels One Float32Array per channel, all the same length
+ */
+export function interleaveToPcm16(channels: Float32Array[]): Int16Array {
+  const frames = channels[0]?.length ?? 0;
+  const pcm = new Int16Array(frames * channels.length);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][frame]));
+      pcm[frame * channels.length + channel] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+    }
+  }
+
+  return pcm;
+}
+
+/**
+ * Wrap interleaved 16-bit PCM chunks in a WAV file.
+ * @param chunks Interleaved samples, as produced by interleaveToPcm16
+ * @param channelCount Number of interleaved channels
+ * @param sampleRate Sample rate in Hz
+ */
+export function createWavBlob(chunks: Int16Array[], channelCount: number, sampleRate: number): Blob {
+  const dataSize = chunks.reduce((size, chunk) => size + chunk.byteLength, 0);
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);                         // fmt chunk size
+  header.setUint16(20, 1, true);                          // PCM
+  header.setUint16(22, channelCount, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * channelCount * 2, true); // Byte rate
+  header.setUint16(32, channelCount * 2, true);           // Block align
+  header.setUint16(34, 16, true);                         // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, dataSize, true);
+
+  return new Blob([header, ...chunks], { type: 'audio/wav' });
+}
@@ -0,0 +1,250 @@
+/**
+ * Peak data of a track at several resolutions, computed once after decoding and cached with the
+ * track's analysis so the waveform can be drawn without rescanning the AudioBuffer. Each level
+ * holds the min, max and RMS of fixed-size blocks of samples, plus the RMS level of each
+ * frequency band, and each level's blocks are PEAK_LEVEL_FACTOR times larger than the last.
+ * Drawing reads the coarsest level whose blocks still fit in a column, so it touches a few
+ * blocks per column whatever the zoom and however long the track.
+ */
+export type WaveformBand = 'low' | 'mid' | 'high';
+
+export interface PeakLevel {
+  samplesPerPeak: number;
+  min: Float32Array; // Lowest sample of each block, across all channels
+  max: Float32Array; // Highest sample of each block, across all channels
+  rms: Float32Array; // RMS level of each block, over all channels
+  bands: Record<WaveformBand, Float32Array>; // RMS level of each band in each block, over all channels
+}
+
+export interface WaveformPeaks {
+  levels: PeakLevel[]; // Finest first
+  max: number; // Max absolute amplitude of the whole track
+  bandMax: Record<WaveformBand, number>; // Loudest block level of each band at the finest level
+}
+
+// The waveform of a stretch of track, one entry per canvas column
+export interface PeakColumns {
+  min: Float32Array;
+  max: Float32Array;
+  rms: Float32Array;
+  bands: Record<WaveformBand, Float32Array>;
+}
+
+// Band edges in Hz: kicks and bass below the first, hats and cymbals above the second
+const LOW_BAND_EDGE = 250;
+const HIGH_BAND_EDGE = 4000;
+
+const WAVEFORM_BANDS: WaveformBand[] = ['low', 'mid', 'high'];
+
+// Block size of the finest level, and how many blocks of a level make one of the next
+const BASE_SAMPLES_PER_PEAK = 256;
+const PEAK_LEVEL_FACTOR = 4;
+
+// Stop adding coarser levels once a level has this few blocks; it fits a canvas already
+const MIN_LEVEL_BLOCKS = 1024;
+
+function createLevel(samplesPerPeak: number, blockCount: number): PeakLevel {
+  return {
+    samplesPerPeak,
+    min: new Float32Array(blockCount),
+    max: new Float32Array(blockCount),
+    rms: new Float32Array(blockCount),
+    bands: {
+      low: new Float32Array(blockCount),
+      mid: new Float32Array(blockCount),
+      high: new Float32Array(blockCount)
+    }
+  };
+}
+
+// Build the finest level straight from the samples
+function computeBaseLevel(buffer: AudioBuffer): PeakLevel {
+  const blockCount = Math.ceil(buffer.length / BASE_SAMPLES_PER_PEAK);
+  const level = createLevel(BASE_SAMPLES_PER_PEAK, blockCount);
+  const { min, max, rms, bands } = level;
+
+  // Coefficients of the one-pole low-pass filters at the band edges; each is run twice for a 12 dB/oct slope
+  const lowCoefficient = 1 - Math.exp((-2 * Math.PI * LOW_BAND_EDGE) / buffer.sampleRate);
+  const highCoefficient = 1 - Math.exp((-2 * Math.PI * HIGH_BAND_EDGE) / buffer.sampleRate);
+
+  // Every channel adds to the block energies, so content panned to one side or out of phase still shows
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let low1 = 0, low2 = 0, high1 = 0, high2 = 0;
+
+    for (let i = 0; i < data.length; i++) {
+      const sample = data[i];
+      low1 += lowCoefficient * (sample - low1);
+      low2 += lowCoefficient * (low1 - low2);
+      high1 += highCoefficient * (sample - high1);
+      high2 += highCoefficient * (high1 - high2);
+
+      // The three bands sum back to the sample
+      const block = Math.floor(i / BASE_SAMPLES_PER_PEAK);
+      const mid = high2 - low2;
+      const high = sample - high2;
+      bands.low[block] += low2 * low2;
+      bands.mid[block] += mid * mid;
+      bands.high[block] += high * high;
+      rms[block] += sample * sample;
+
+      if (sample < min[block]) min[block] = sample;
+      if (sample > max[block]) max[block] = sample;
+    }
+  }
+
+  // Turn the summed energies into RMS levels
+  const samplesPerBlock = BASE_SAMPLES_PER_PEAK * buffer.numberOfChannels;
+  for (const levels of [rms, bands.low, bands.mid, bands.high]) {
+    for (let i = 0; i < blockCount; i++) {
+      levels[i] = Math.sqrt(levels[i] / samplesPerBlock);
+    }
+  }
+
+  return level;
+}
+
+// Build a level from the one below it, merging PEAK_LEVEL_FACTOR blocks into one
+function computeCoarserLevel(finer: PeakLevel): PeakLevel {
+  const blockCount = Math.ceil(finer.min.length / PEAK_LEVEL_FACTOR);
+  const level = createLevel(finer.samplesPerPeak * PEAK_LEVEL_FACTOR, blockCount);
+
+  for (let block = 0; block < blockCount; block++) {
+    const first = block * PEAK_LEVEL_FACTOR;
+    const last = Math.min(first + PEAK_LEVEL_FACTOR, finer.min.length);
+    let min = 0, max = 0, rms = 0, low = 0, mid = 0, high = 0;
+    for (let i = first; i < last; i++) {
+      min = Math.min(min, finer.min[i]);
+      max = Math.max(max, finer.max[i]);
+      rms += finer.rms[i] * finer.rms[i];
+      low += finer.bands.low[i] * finer.bands.low[i];
+      mid += finer.bands.mid[i] * finer.bands.mid[i];
+      high += finer.bands.high[i] * finer.bands.high[i];
+    }
+
+    // RMS levels combine as the root of the mean energy
+    const count = last - first;
+    level.min[block] = min;
+    level.max[block] = max;
+    level.rms[block] = Math.sqrt(rms / count);
+    level.bands.low[block] = Math.sqrt(low / count);
+    level.bands.mid[block] = Math.sqrt(mid / count);
+    level.bands.high[block] = Math.sqrt(high / count);
+  }
+
+  return level;
+}
+
+export function computeWaveformPeaks(buffer: AudioBuffer): WaveformPeaks {
+  const levels = [computeBaseLevel(buffer)];
+  while (levels[levels.length - 1].min.length > MIN_LEVEL_BLOCKS) {
+    levels.push(computeCoarserLevel(levels[levels.length - 1]));
+  }
+
+  const base = levels[0];
+  let max = 0;
+  const bandMax: Record<WaveformBand, number> = { low: 0, mid: 0, high: 0 };
+  for (let i = 0; i < base.min.length; i++) {
+    max = Math.max(max, -base.min[i], base.max[i]);
+    for (const band of WAVEFORM_BANDS) {
+      if (base.bands[band][i] > bandMax[band]) bandMax[band] = base.bands[band][i];
+    }
+  }
+
+  return { levels, max, bandMax };
+}
+
+/**
+ * Get the waveform of a stretch of track, one entry per canvas column, from the coarsest level
+ * whose blocks fit in a column. Zoomed in past the finest level, min and max come from the
+ * samples themselves, which is cheap as so few are visible, and each column takes the RMS and
+ * band levels of its block.
+ * @param peaks The track's peak data
+ * @param buffer The track's audio, read when zoomed in past the finest level
+ * @param start First sample of the stretch; columns before the track's start or after its end are silent
+ * @param samplesPerColumn Samples covered by each column
+ * @param columnCount Number of columns
+ */
+export function getPeakColumns(
+  peaks: WaveformPeaks,
+  buffer: AudioBuffer,
+  start: number,
+  samplesPerColumn: number,
+  columnCount: number
+): PeakColumns {
+  const columns: PeakColumns = {
+    min: new Float32Array(columnCount),
+    max: new Float32Array(columnCount),
+    rms: new Float32Array(columnCount),
+    bands: {
+      low: new Float32Array(columnCount),
+      mid: new Float32Array(columnCount),
+      high: new Float32Array(columnCount)
+    }
+  };
+
+  let level = peaks.levels[0];
+  for (const candidate of peaks.levels) {
+    if (candidate.samplesPerPeak <= samplesPerColumn) level = candidate;
+  }
+  const readSamples = samplesPerColumn < level.samplesPerPeak;
+  const channels = readSamples
+    ? Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel))
+    : [];
+
+  for (let i = 0; i < columnCount; i++) {
+    const columnStart = Math.max(0, Math.floor(start + i * samplesPerColumn));
+    const columnEnd = Math.min(buffer.length, Math.floor(start + (i + 1) * samplesPerColumn));
+    if (columnEnd <= columnStart) continue;
+
+    // Merge the blocks the column overlaps; a column narrower than a block takes that block
+    const firstBlock = Math.floor(columnStart / level.samplesPerPeak);
+    const lastBlock = Math.max(firstBlock + 1, Math.min(Math.ceil(columnEnd / level.samplesPerPeak), level.min.length));
+    let min = 0, max = 0;
+    for (let block = firstBlock; block < lastBlock; block++) {
+      min = Math.min(min, level.min[block]);
+      max = Math.max(max, level.max[block]);
+      columns.rms[i] = Math.max(columns.rms[i], level.rms[block]);
+      for (const band of WAVEFORM_BANDS) {
+        columns.bands[band][i] = Math.max(columns.bands[band][i], level.bands[band][block]);
+      }
+    }
+
+    if (readSamples) {
+      min = 0;
+      max = 0;
+      for (const data of channels) {
+        for (let j = columnStart; j < columnEnd; j++) {
+          if (data[j] < min) min = data[j];
+          if (data[j] > max) max = data[j];
+        }
+      }
+    }
+    columns.min[i] = min;
+    columns.max[i] = max;
+  }
+
+  return columns;
+}
+
+/**
+ * Get the colour of a stretch of waveform from its band levels: red for low, green for mid
+ * and blue for high, so kicks and basslines, vocals and synths, and hats stand apart.
+ * Each band is scaled by its loudest level in the track, so quiet bands like the highs can
+ * still dominate a column, and the strongest band is always at full brightness.
+ * @param levels The band levels of the stretch
+ * @param bandMax The track's loudest level of each band
+ * @param brightness Scale for the whole colour, e.g. to darken the played part
+ */
+export function getWaveformColor(
+  levels: Record<WaveformBand, number>,
+  bandMax: Record<WaveformBand, number>,
+  brightness: number = 1
+): string {
+  const low = levels.low / (bandMax.low || 1);
+  const mid = levels.mid / (bandMax.mid || 1);
+  const high = levels.high / (bandMax.high || 1);
+  const strongest = Math.max(low, mid, high) || 1;
+  const toChannel = (value: number) => Math.round((value / strongest) * 255 * brightness);
+  return `rgb(${toChannel(low)}, ${toChannel(mid)}, ${toChannel(high)})`;
+}
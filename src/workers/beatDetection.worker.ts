@@ -0,0 +1,30 @@
+// beatDetection.worker.ts
+// Runs the aubio tempo tracking, grid fitting, downbeat and phrase stages off the main thread,
+// and the chroma analysis of key detection.
+
+import { BeatDetectionMessage, BeatDetectionRequest, BeatDetectionResult, analyzeFilteredData } from '../utils/beatAnalysis';
+import { KeyDetectionRequest, KeyDetectionResult, analyzeKeyData } from '../utils/keyDetection';
+
+const post = (message: BeatDetectionMessage<BeatDetectionResult | KeyDetectionResult>) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<BeatDetectionRequest | KeyDetectionRequest>) => {
+  const request = event.data;
+
+  try {
+    if (request.type === 'key') {
+      post({ type: 'result', result: analyzeKeyData(request.data) });
+      return;
+    }
+
+    const { filteredData, sampleRate, durationMs } = request;
+    const result = await analyzeFilteredData(
+      filteredData,
+      sampleRate,
+      durationMs,
+      (progress) => post({ type: 'progress', progress })
+    );
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,21 @@
+// libraryScan.worker.ts
+// Hashes imported files and reads their tags off the main thread.
+
+import { LibraryScanMessage, LibraryScanRequest } from '../utils/libraryScan';
+import { readTrackMetadata } from '../utils/trackMetadata';
+import { hashFileContent } from '../utils/trackStorage';
+
+const post = (message: LibraryScanMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<LibraryScanRequest>) => {
+  const { id, file } = event.data;
+
+  try {
+    const data = await file.arrayBuffer();
+    const fileKey = await hashFileContent(data);
+    const metadata = await readTrackMetadata(new Uint8Array(data), file);
+    post({ type: 'result', id, fileKey, metadata });
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};
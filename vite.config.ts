@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react-swc'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The library scan worker reads tags with music-metadata, which loads its parsers with dynamic imports
+    format: 'es'
+  },
   build: {
     rollupOptions: {
       input: {